@@ -4,11 +4,13 @@ import * as THREE from 'three';
 import Scene from './components/Scene';
 import ControlsPanel from './components/ControlsPanel';
 import InfoPanel from './components/InfoPanel';
-import { createMatrixEvaluator, multiplyMatrixVector, interpolateEigenvalue } from './utils/mathUtils';
+import { buildShapeGeometry, coordinateGrid, parseMeshFile } from './utils/shapes';
+import { parsePointCloud, pointCloudColors } from './utils/pointCloud';
+import { createMatrixEvaluator, createGeodesicEvaluator, createChainEvaluator, createAffineEvaluator, multiplyMatrixVector, applyHomogeneous, iterateMap, detectCycle, linearFixedPoint, createNetworkEvaluator, createTransitionEvaluator, eigenPairsOf, invariantSubspaces, classifyLinearSystem, singularValueDecomposition, matrixLogarithm, sampleFieldOverlay, integrateOde, numericalJacobian, identityMatrix, resizeMatrix, resizeVector, projectVector, IMAGINARY_RESIDUAL_TOLERANCE, type TransformOptions, type IterationOrbit, type NetworkLayerInput, type OdeTrajectory, type VectorField } from './utils/mathUtils';
 import { easingFunctions } from './utils/easing';
-import { activationFunctionMap, parseCustomActivation } from './utils/activationFunctions';
-import type { ActivationFunction } from './utils/activationFunctions';
-import type { Matrix3, Vector3, VectorObject, Wall, FadingPathStyle } from './types';
+import { activationFunctionMap, parseCustomActivation, parseVectorActivation, resolveActivation, componentwise, defaultVectorComponents, reconcileActivationParameters, reconcileExpressionParameters, reconcileMatrixParameters, parseMatrixExpressions, parameterValues, PARAMETERIZED_ACTIVATIONS } from './utils/activationFunctions';
+import type { VectorActivationFunction } from './utils/activationFunctions';
+import type { Matrix, Matrix3, Vector, VectorObject, Wall, FadingPathStyle, EvaluationMode, BranchPolicy, PathMode, GeodesicBlend, ChainSegment, ProjectionConfig, DynamicsMode, NetworkLayer, ActivationParameter, MatrixParameter, ParametricMatrix, OdeField, OdeSolver, TransitionIntegrator, FieldOverlayConfig, ShapeKind, ShapeMesh, ShapeObject, PointCloud, CoordinateFrameConfig, Vector3 } from './types';
 import {
     listProfiles,
     loadProfile as loadStoredProfile,
@@ -32,7 +34,8 @@ const INITIAL_MATRIX: Matrix3 = [
     [0, 0, 1]
 ];
 
-export const PRESET_MATRICES: { name: string; matrix: Matrix3 }[] = [
+// Presets are embedded into larger dimensions with the identity; 4×4 presets switch the editor to R⁴.
+export const PRESET_MATRICES: { name: string; matrix: Matrix }[] = [
     { name: "Rotation (XY, 2rad)", matrix: INITIAL_MATRIX },
     { name: "Shear", matrix: [[1, 1, 0], [0, 1, 0], [0, 0, 1]] },
     { name: "Scale (Uniform)", matrix: [[1.5, 0, 0], [0, 1.5, 0], [0, 0, 1.5]] },
@@ -40,9 +43,166 @@ export const PRESET_MATRICES: { name: string; matrix: Matrix3 }[] = [
     { name: "Spiral Sink (XY)", matrix: [[1, -1, 0], [1, 1, 0], [0, 0, 0.8]] },
     { name: "Spiral Source (XY)", matrix: [[1, -1, 0], [1, 1, 0], [0, 0, 1.2]] },
     { name: "Saddle Point", matrix: [[1.2, 0, 0], [0, 0.8, 0], [0, 0, 1]] },
+    {
+        name: "Double Rotation (R⁴)",
+        matrix: [
+            [Math.cos(1), -Math.sin(1), 0, 0],
+            [Math.sin(1), Math.cos(1), 0, 0],
+            [0, 0, Math.cos(2), -Math.sin(2)],
+            [0, 0, Math.sin(2), Math.cos(2)]
+        ]
+    },
+    {
+        // State (x₁, x₂, v₁, v₂) of two springs coupled in the middle; best viewed as eᵗᴬ
+        name: "Coupled Oscillators (R⁴)",
+        matrix: [[0, 0, 1, 0], [0, 0, 0, 1], [-2, 1, 0, 0], [1, -2, 0, 0]]
+    },
+    { name: "Rotation (2D, 90°)", matrix: [[0, -1], [1, 0]] },
+    { name: "Rotation (2D, 30°)", matrix: [[Math.cos(Math.PI / 6), -Math.sin(Math.PI / 6)], [Math.sin(Math.PI / 6), Math.cos(Math.PI / 6)]] },
+    { name: "Reflection (x-axis)", matrix: [[1, 0], [0, -1]] },
+    { name: "Reflection (y = x)", matrix: [[0, 1], [1, 0]] },
+    { name: "Shear (2D)", matrix: [[1, 1], [0, 1]] },
+    { name: "Squeeze (2D)", matrix: [[2, 0], [0, 0.5]] },
+    { name: "Spiral Sink (2D)", matrix: [[0.8, -0.5], [0.5, 0.8]] },
     { name: "Custom", matrix: [[1, 0, 0], [0, 1, 0], [0, 0, 1]] }
 ];
 
+// 2D mode lists the planar presets only; higher dimensions list everything that is at least 3×3.
+export const presetsForDimension = (dimension: number) =>
+    PRESET_MATRICES.filter(preset =>
+        preset.name === 'Custom' || (dimension === 2 ? preset.matrix.length === 2 : preset.matrix.length >= 3)
+    );
+
+// Templates for expression entries; the rotation angle replaces the fixed-angle numeric presets.
+export const PARAMETRIC_PRESETS: { name: string; expressions: string[][]; params: MatrixParameter[] }[] = [
+    {
+        name: 'Rotation (XY, θ)',
+        expressions: [['cos(theta)', '-sin(theta)', '0'], ['sin(theta)', 'cos(theta)', '0'], ['0', '0', '1']],
+        params: [{ name: 'theta', value: 2, min: 0, max: 2 * Math.PI, animated: false }],
+    },
+    {
+        name: 'Shear (k)',
+        expressions: [['1', 'k', '0'], ['0', '1', '0'], ['0', '0', '1']],
+        params: [{ name: 'k', value: 1, min: -3, max: 3, animated: false }],
+    },
+    {
+        name: 'Scale (s)',
+        expressions: [['s', '0', '0'], ['0', 's', '0'], ['0', '0', 's']],
+        params: [{ name: 's', value: 1.5, min: 0, max: 3, animated: false }],
+    },
+    {
+        name: 'Double Rotation (R⁴, θ, ψ)',
+        expressions: [
+            ['cos(theta)', '-sin(theta)', '0', '0'],
+            ['sin(theta)', 'cos(theta)', '0', '0'],
+            ['0', '0', 'cos(psi)', '-sin(psi)'],
+            ['0', '0', 'sin(psi)', 'cos(psi)']
+        ],
+        params: [
+            { name: 'theta', value: 1, min: 0, max: 2 * Math.PI, animated: false },
+            { name: 'psi', value: 2, min: 0, max: 2 * Math.PI, animated: false },
+        ],
+    },
+    {
+        name: 'Rotation (2D, θ)',
+        expressions: [['cos(theta)', '-sin(theta)'], ['sin(theta)', 'cos(theta)']],
+        params: [{ name: 'theta', value: Math.PI / 6, min: 0, max: 2 * Math.PI, animated: false }],
+    },
+    {
+        name: 'Squeeze (2D, k)',
+        expressions: [['k', '0'], ['0', '1 / k']],
+        params: [{ name: 'k', value: 2, min: 0.1, max: 4, animated: false }],
+    },
+];
+
+// A preset parameter that is not a free symbol of its entries vanishes on the first edit or reload.
+PARAMETRIC_PRESETS.forEach(preset => {
+    const kept = reconcileMatrixParameters(preset.expressions, preset.params).map(param => param.name);
+    const lost = preset.params.filter(param => !kept.includes(param.name));
+    if (lost.length > 0 || kept.length !== preset.params.length) {
+        console.error(`Parametric preset "${preset.name}" declares parameters [${preset.params.map(param => param.name).join(', ')}] but its entries use [${kept.join(', ')}].`);
+    }
+});
+
+export const parametricPresetsForDimension = (dimension: number) =>
+    PARAMETRIC_PRESETS.filter(preset => (dimension === 2 ? preset.expressions.length === 2 : preset.expressions.length >= 3));
+
+// Missing entries come from the identity, as resizeMatrix does for numbers; generators A(t) pad with '0'.
+const resizeExpressionMatrix = (expressions: string[][], n: number, diagonal = '1'): string[][] =>
+    Array.from({ length: n }, (_, i) =>
+        Array.from({ length: n }, (_, j) => expressions[i]?.[j] ?? (i === j ? diagonal : '0'))
+    );
+
+// Parametrically forced oscillator x'' = -(1 + ε·cos 2t)·x (Mathieu) in the XY plane, with slow breathing along z.
+const INITIAL_TIME_VARYING: string[][] = [
+    ['0', '1', '0'],
+    ['-(1 + 0.5 * cos(2 * t))', '0', '0'],
+    ['0', '0', '0.2 * sin(t)']
+];
+
+// Seeds expression entries from a numeric matrix without float noise like 0.30000000000000004.
+const formatMatrixEntry = (value: number): string => String(Number(value.toFixed(6)));
+
+// Classic systems for the vector-field mode; each fixes its own dimension.
+export const VECTOR_FIELD_PRESETS: { name: string; expressions: string[]; params: ActivationParameter[] }[] = [
+    {
+        name: 'Lorenz',
+        expressions: ['sigma * (y - x)', 'x * (rho - z) - y', 'x * y - beta * z'],
+        params: [
+            { name: 'sigma', value: 10, min: 0, max: 30 },
+            { name: 'rho', value: 28, min: 0, max: 60 },
+            { name: 'beta', value: 8 / 3, min: 0, max: 10 },
+        ],
+    },
+    {
+        name: 'Rössler',
+        expressions: ['-y - z', 'x + a * y', 'b + z * (x - c)'],
+        params: [
+            { name: 'a', value: 0.2, min: 0, max: 1 },
+            { name: 'b', value: 0.2, min: 0, max: 2 },
+            { name: 'c', value: 5.7, min: 0, max: 15 },
+        ],
+    },
+    {
+        name: 'Thomas',
+        expressions: ['sin(y) - b * x', 'sin(z) - b * y', 'sin(x) - b * z'],
+        params: [{ name: 'b', value: 0.208, min: 0, max: 0.5 }],
+    },
+    {
+        name: 'Van der Pol (2D)',
+        expressions: ['y', 'mu * (1 - x^2) * y - x'],
+        params: [{ name: 'mu', value: 1, min: 0, max: 5 }],
+    },
+    {
+        name: 'Damped Pendulum (2D)',
+        expressions: ['y', '-sin(x) - damping * y'],
+        params: [{ name: 'damping', value: 0.2, min: 0, max: 2 }],
+    },
+];
+
+// New coordinates start out at rest (x_i' = 0).
+const resizeFieldExpressions = (expressions: string[], n: number): string[] =>
+    Array.from({ length: n }, (_, i) => expressions[i] ?? '0');
+
+const presetNameFor = (name: string, dimension: number): string =>
+    presetsForDimension(dimension).some(preset => preset.name === name) ? name : 'Custom';
+
+
+const INITIAL_TARGET_PRESET = PRESET_MATRICES[1];
+
+const INITIAL_CHAIN: ChainSegment[] = [
+    { id: 1, matrix: [[0, -1, 0], [1, 0, 0], [0, 0, 1]], presetName: 'Custom', duration: 1 },
+    { id: 2, matrix: PRESET_MATRICES[1].matrix, presetName: PRESET_MATRICES[1].name, duration: 1 },
+    { id: 3, matrix: PRESET_MATRICES[3].matrix, presetName: PRESET_MATRICES[3].name, duration: 1 },
+];
+
+const INITIAL_NETWORK: NetworkLayer[] = [
+    { id: 1, matrix: [[1.5, -1, 0], [1, 1.5, 0], [0, 0, 1]], bias: [0, 0, 0.5], activation: 'tanh', customFnStr: 'x' },
+    { id: 2, matrix: [[2, 0, 0], [0, 0.5, 0], [0, 0, 1]], bias: [-0.5, 0.5, 0], activation: 'relu', customFnStr: 'x' },
+];
+
+// Basis images use the scene's axis colors.
+const FRAME_COLORS = ['#f87171', '#4ade80', '#60a5fa'];
 
 const VECTOR_COLORS = ['#f87171', '#60a5fa', '#facc15', '#4ade80', '#a78bfa', '#fb923c'];
 
@@ -52,6 +212,13 @@ const INITIAL_VECTORS: VectorObject[] = [
 
 const PATH_RESOLUTION = 100; // Number of steps per unit of t
 const CONTACT_TOLERANCE = 0.07;
+const MAX_CHAIN_SEGMENTS = 8;
+const MAX_ITERATION_STEPS = 200;
+const MAX_NETWORK_LAYERS = 8;
+const ODE_TOLERANCES = [1e-3, 1e-4, 1e-6, 1e-8];
+const MIN_DIMENSION = 2;
+const MAX_DIMENSION = 6;
+const INITIAL_PROJECTION: ProjectionConfig = { mode: 'axes', axes: [0, 1, 2], matrix: identityMatrix(3) };
 type TransformationsMap = Record<number, { initial: THREE.Vector3; final: THREE.Vector3 | null; fullPath: THREE.Vector3[] }>;
 interface WallContact {
     wallId: number;
@@ -64,27 +231,63 @@ interface WallContact {
 type Eigenvalue = { re: number; im: number };
 type TrailSample = { position: THREE.Vector3; timestamp: number; index: number };
 
+// Axis-aligned staircase between consecutive orbit points (x first, then y, then z).
+const cobwebPath = (points: THREE.Vector3[]): THREE.Vector3[] =>
+    points.flatMap((point, k) => {
+        if (k === 0) return [point];
+        const previous = points[k - 1];
+        return [
+            new THREE.Vector3(point.x, previous.y, previous.z),
+            new THREE.Vector3(point.x, point.y, previous.z),
+            point
+        ];
+    });
+
 const sanitizeNumber = (value: unknown, fallback: number): number => {
     const parsed = typeof value === 'number' ? value : Number(value);
     return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const sanitizeMatrix3 = (input: unknown, fallback: Matrix3 = INITIAL_MATRIX): Matrix3 => {
-    if (!Array.isArray(input)) return fallback;
-    const rows: Vector3[] = [];
-    for (let i = 0; i < 3; i++) {
+const clampDimension = (value: number): number =>
+    Number.isFinite(value) ? THREE.MathUtils.clamp(Math.round(value), MIN_DIMENSION, MAX_DIMENSION) : MIN_DIMENSION;
+
+const sanitizeMatrix = (input: unknown, n: number, fallback: Matrix = INITIAL_MATRIX): Matrix => {
+    const base = resizeMatrix(fallback, n);
+    if (!Array.isArray(input)) return base;
+    return base.map((fallbackRow, i) => {
         const row = Array.isArray(input[i]) ? input[i] as unknown[] : [];
-        rows.push([
-            sanitizeNumber(row[0], fallback[i]?.[0] ?? 0),
-            sanitizeNumber(row[1], fallback[i]?.[1] ?? 0),
-            sanitizeNumber(row[2], fallback[i]?.[2] ?? 0),
-        ] as Vector3);
-    }
-    return rows as Matrix3;
+        return fallbackRow.map((value, j) => sanitizeNumber(row[j], value));
+    });
+};
+
+// Keeps the chosen axes inside R^n and gives the projection matrix n columns.
+// Up to three dimensions the coordinates map straight onto the scene (2D points get z = 0).
+const resizeProjection = (projection: ProjectionConfig, n: number): ProjectionConfig => ({
+    mode: n > 3 ? projection.mode : 'axes',
+    axes: n > 3
+        ? projection.axes.map(axis => Math.min(axis, n - 1)) as [number, number, number]
+        : [0, 1, 2],
+    matrix: projection.matrix.map(row => resizeVector(row, n)),
+});
+
+const sanitizeProjection = (input: unknown, n: number): ProjectionConfig => {
+    const fallback = resizeProjection(INITIAL_PROJECTION, n);
+    if (!input || typeof input !== 'object') return fallback;
+    const candidate = input as Partial<ProjectionConfig>;
+    const axesSource = Array.isArray(candidate.axes) ? candidate.axes : [];
+    const axes = fallback.axes.map((axis, i) =>
+        THREE.MathUtils.clamp(Math.round(sanitizeNumber(axesSource[i], axis)), 0, Math.max(2, n - 1))
+    ) as [number, number, number];
+    const matrixSource = Array.isArray(candidate.matrix) ? candidate.matrix : [];
+    const matrix = fallback.matrix.map((fallbackRow, i) => {
+        const row = Array.isArray(matrixSource[i]) ? matrixSource[i] as unknown[] : [];
+        return fallbackRow.map((value, j) => sanitizeNumber(row[j], value));
+    });
+    return resizeProjection({ mode: candidate.mode === 'matrix' ? 'matrix' : 'axes', axes, matrix }, n);
 };
 
-const sanitizeVectors = (input: unknown, fallback: VectorObject[] = INITIAL_VECTORS): VectorObject[] => {
-    if (!Array.isArray(input)) return fallback;
+const sanitizeVectors = (input: unknown, n: number, fallback: VectorObject[] = INITIAL_VECTORS): VectorObject[] => {
+    if (!Array.isArray(input)) return fallback.map(vector => ({ ...vector, value: resizeVector(vector.value, n) }));
     const result: VectorObject[] = [];
     let syntheticId = Date.now();
     for (const entry of input) {
@@ -94,16 +297,12 @@ const sanitizeVectors = (input: unknown, fallback: VectorObject[] = INITIAL_VECT
             ? candidate.id
             : syntheticId++;
         const valueSource = Array.isArray(candidate.value) ? candidate.value : [];
-        const value: Vector3 = [
-            sanitizeNumber(valueSource[0], 0),
-            sanitizeNumber(valueSource[1], 0),
-            sanitizeNumber(valueSource[2], 0),
-        ];
+        const value: Vector = Array.from({ length: n }, (_, i) => sanitizeNumber(valueSource[i], 0));
         const visible = typeof candidate.visible === 'boolean' ? candidate.visible : true;
         const color = typeof candidate.color === 'string' && candidate.color ? candidate.color : VECTOR_COLORS[id % VECTOR_COLORS.length] ?? '#ffffff';
         result.push({ id, value, visible, color });
     }
-    return result.length > 0 ? result : fallback;
+    return result.length > 0 ? result : fallback.map(vector => ({ ...vector, value: resizeVector(vector.value, n) }));
 };
 
 const sanitizeWalls = (input: unknown): Wall[] => {
@@ -127,6 +326,28 @@ const sanitizeWalls = (input: unknown): Wall[] => {
     return walls;
 };
 
+// Imported meshes are session-only, so a stored profile holds built-in shapes alone.
+const SHAPE_KINDS: ShapeKind[] = ['cube', 'sphere', 'lattice'];
+
+const sanitizeShapes = (input: unknown): ShapeObject[] => {
+    if (!Array.isArray(input)) return [];
+    const shapes: ShapeObject[] = [];
+    let syntheticId = Date.now();
+    for (const entry of input) {
+        if (!entry || typeof entry !== 'object') continue;
+        const candidate = entry as Partial<ShapeObject>;
+        const kind = SHAPE_KINDS.includes(candidate.kind as ShapeKind) ? candidate.kind as ShapeKind : null;
+        if (!kind) continue;
+        const id = typeof candidate.id === 'number' && Number.isFinite(candidate.id)
+            ? candidate.id
+            : syntheticId++;
+        const visible = typeof candidate.visible === 'boolean' ? candidate.visible : true;
+        const color = typeof candidate.color === 'string' && candidate.color ? candidate.color : VECTOR_COLORS[shapes.length % VECTOR_COLORS.length];
+        shapes.push({ id, kind, visible, color });
+    }
+    return shapes;
+};
+
 const sanitizeFadingStyle = (value: unknown): FadingPathStyle => {
     return value === 'dots' ? 'dots' : 'smooth';
 };
@@ -153,30 +374,240 @@ const sanitizeAnimationConfig = (input: unknown): { duration: number; startT: nu
     return { duration, startT: safeStart, endT: safeEnd, easing };
 };
 
-const sanitizeActivation = (input: unknown): { name: string; customFnStr: string } => {
+const sanitizeEvaluationMode = (value: unknown, linearFallback: unknown): EvaluationMode => {
+    if (value === 'power' || value === 'linear' || value === 'flow' || value === 'polar') {
+        return value;
+    }
+    // Profiles saved before evaluation modes existed only stored the linear toggle.
+    return linearFallback === true ? 'linear' : 'power';
+};
+
+const sanitizeBranchPolicy = (value: unknown): BranchPolicy => {
+    return value === 'realLog' || value === 'refuse' ? value : 'principal';
+};
+
+const sanitizePathMode = (value: unknown): PathMode => {
+    return value === 'geodesic' || value === 'chain' || value === 'timeVarying' ? value : 'identity';
+};
+
+const sanitizeGeodesicBlend = (value: unknown): GeodesicBlend => {
+    return value === 'logEuclidean' ? 'logEuclidean' : 'relative';
+};
+
+const sanitizeDynamicsMode = (value: unknown): DynamicsMode => {
+    return value === 'iterate' || value === 'network' || value === 'neuralOde' || value === 'vectorField' ? value : 'interpolate';
+};
+
+const sanitizeOdeTolerance = (value: unknown): number => {
+    const tolerance = sanitizeNumber(value, 1e-6);
+    return ODE_TOLERANCES.includes(tolerance) ? tolerance : 1e-6;
+};
+
+const sanitizeFieldSystem = (
+    data: Partial<Pick<ProfileData, 'fieldExpressions' | 'fieldParams' | 'fieldPresetName'>>,
+    n: number
+): Pick<ProfileData, 'fieldExpressions' | 'fieldParams' | 'fieldPresetName'> => {
+    const fallback = VECTOR_FIELD_PRESETS[0];
+    const fieldExpressions = Array.isArray(data.fieldExpressions)
+        ? resizeFieldExpressions(data.fieldExpressions.map(value => (typeof value === 'string' ? value : '0')), n)
+        : resizeFieldExpressions(fallback.expressions, n);
+    const stored = Array.isArray(data.fieldParams) ? sanitizeActivationParameters(data.fieldParams) : fallback.params;
+    return {
+        fieldExpressions,
+        fieldParams: reconcileExpressionParameters(fieldExpressions, stored, n),
+        fieldPresetName: typeof data.fieldPresetName === 'string' ? data.fieldPresetName : 'Custom'
+    };
+};
+
+const sanitizeParametricMatrix = (input: unknown, n: number): ParametricMatrix => {
+    const fallback = PARAMETRIC_PRESETS[0];
+    if (!input || typeof input !== 'object') {
+        return { enabled: false, expressions: resizeExpressionMatrix(fallback.expressions, n), params: fallback.params };
+    }
+    const candidate = input as Partial<ParametricMatrix>;
+    const rows = Array.isArray(candidate.expressions) ? candidate.expressions : fallback.expressions;
+    const expressions = resizeExpressionMatrix(
+        rows.map(row => (Array.isArray(row) ? row.map(value => (typeof value === 'string' ? value : '0')) : [])),
+        n
+    );
+    const storedParams = Array.isArray(candidate.params) ? candidate.params : [];
+    const animated = new Set(storedParams.filter(param => param?.animated === true).map(param => param.name));
+    const params = sanitizeActivationParameters(storedParams).map(param => ({ ...param, animated: animated.has(param.name) }));
+    return {
+        enabled: candidate.enabled === true,
+        expressions,
+        params: reconcileMatrixParameters(expressions, params)
+    };
+};
+
+const INITIAL_FIELD_OVERLAY: FieldOverlayConfig = {
+    enabled: false,
+    layout: 'slice',
+    density: 9,
+    extent: 4,
+    sliceAxis: 'z',
+    slicePosition: 0,
+    scale: 0.3,
+    streamlines: false
+};
+
+const sanitizeFieldOverlay = (input: unknown): FieldOverlayConfig => {
+    if (!input || typeof input !== 'object') return INITIAL_FIELD_OVERLAY;
+    const candidate = input as Partial<FieldOverlayConfig>;
+    return {
+        enabled: candidate.enabled === true,
+        layout: candidate.layout === 'lattice' ? 'lattice' : 'slice',
+        density: THREE.MathUtils.clamp(Math.round(sanitizeNumber(candidate.density, 9)), 2, 20),
+        extent: THREE.MathUtils.clamp(sanitizeNumber(candidate.extent, 4), 0.5, 20),
+        sliceAxis: candidate.sliceAxis === 'x' || candidate.sliceAxis === 'y' ? candidate.sliceAxis : 'z',
+        slicePosition: sanitizeNumber(candidate.slicePosition, 0),
+        scale: THREE.MathUtils.clamp(sanitizeNumber(candidate.scale, 0.3), 0.01, 5),
+        streamlines: candidate.streamlines === true
+    };
+};
+
+const INITIAL_COORDINATE_FRAME: CoordinateFrameConfig = { enabled: false, density: 1, extent: 4 };
+
+const sanitizeCoordinateFrame = (input: unknown): CoordinateFrameConfig => {
+    if (!input || typeof input !== 'object') return INITIAL_COORDINATE_FRAME;
+    const candidate = input as Partial<CoordinateFrameConfig>;
+    return {
+        enabled: candidate.enabled === true,
+        density: THREE.MathUtils.clamp(sanitizeNumber(candidate.density, 1), 0.25, 4),
+        extent: THREE.MathUtils.clamp(sanitizeNumber(candidate.extent, 4), 1, 10)
+    };
+};
+
+const resizeNetwork = (layers: NetworkLayer[], n: number): NetworkLayer[] =>
+    layers.map(layer => ({ ...layer, matrix: resizeMatrix(layer.matrix, n), bias: resizeVector(layer.bias, n) }));
+
+const sanitizeNetworkLayers = (input: unknown, n: number): NetworkLayer[] => {
+    if (!Array.isArray(input)) return resizeNetwork(INITIAL_NETWORK, n);
+    const layers: NetworkLayer[] = [];
+    let syntheticId = Date.now();
+    for (const entry of input.slice(0, MAX_NETWORK_LAYERS)) {
+        if (!entry || typeof entry !== 'object') continue;
+        const candidate = entry as Partial<NetworkLayer>;
+        const id = typeof candidate.id === 'number' && Number.isFinite(candidate.id)
+            ? candidate.id
+            : syntheticId++;
+        const activation = typeof candidate.activation === 'string'
+            && (candidate.activation === 'custom' || candidate.activation in activationFunctionMap)
+            ? candidate.activation
+            : 'identity';
+        layers.push({
+            id,
+            matrix: sanitizeMatrix(candidate.matrix, n),
+            bias: resizeVector(
+                Array.isArray(candidate.bias) ? candidate.bias.map(value => sanitizeNumber(value, 0)) : [],
+                n
+            ),
+            activation,
+            customFnStr: typeof candidate.customFnStr === 'string' ? candidate.customFnStr : 'x'
+        });
+    }
+    return layers.length > 0 ? layers : resizeNetwork(INITIAL_NETWORK, n);
+};
+
+const clampIterationSteps = (value: number): number =>
+    Number.isFinite(value) ? THREE.MathUtils.clamp(Math.round(value), 1, MAX_ITERATION_STEPS) : 20;
+
+const resizeChain = (segments: ChainSegment[], n: number): ChainSegment[] =>
+    segments.map(segment => ({ ...segment, matrix: resizeMatrix(segment.matrix, n) }));
+
+const sanitizeChainSegments = (input: unknown, n: number): ChainSegment[] => {
+    if (!Array.isArray(input)) return resizeChain(INITIAL_CHAIN, n);
+    const segments: ChainSegment[] = [];
+    let syntheticId = Date.now();
+    for (const entry of input.slice(0, MAX_CHAIN_SEGMENTS)) {
+        if (!entry || typeof entry !== 'object') continue;
+        const candidate = entry as Partial<ChainSegment>;
+        const id = typeof candidate.id === 'number' && Number.isFinite(candidate.id)
+            ? candidate.id
+            : syntheticId++;
+        const duration = sanitizeNumber(candidate.duration, 1);
+        segments.push({
+            id,
+            matrix: sanitizeMatrix(candidate.matrix, n),
+            presetName: typeof candidate.presetName === 'string' ? candidate.presetName : 'Custom',
+            duration: duration > 0 ? duration : 1
+        });
+    }
+    return segments.length > 0 ? segments : resizeChain(INITIAL_CHAIN, n);
+};
+
+// Index of the last sample taken at or before t; sample times are sorted but not always uniform.
+const sampleIndexAt = (times: number[], t: number): number => {
+    let low = 0;
+    let high = times.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (times[mid] <= t + 1e-9) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+};
+
+// A single vector expression is kept as is; per-component lists follow the dimension.
+const resizeVectorComponents = (expressions: string[], n: number): string[] =>
+    expressions.length === 1
+        ? expressions
+        : defaultVectorComponents(n).map((fallback, i) => expressions[i] ?? fallback);
+
+const sanitizeActivationParameters = (input: unknown): ActivationParameter[] => {
+    if (!Array.isArray(input)) return [];
+    return input.flatMap(entry => {
+        if (!entry || typeof entry !== 'object') return [];
+        const candidate = entry as Partial<ActivationParameter>;
+        if (typeof candidate.name !== 'string' || candidate.name.length === 0) return [];
+        const min = sanitizeNumber(candidate.min, -5);
+        const max = Math.max(min + 1e-3, sanitizeNumber(candidate.max, 5));
+        const value = THREE.MathUtils.clamp(sanitizeNumber(candidate.value, 1), min, max);
+        return [{ name: candidate.name, value, min, max }];
+    });
+};
+
+const sanitizeActivation = (input: unknown, n: number): { name: string; customFnStr: string; vectorFnStrs: string[]; params: ActivationParameter[] } => {
     if (!input || typeof input !== 'object') {
-        return { name: 'identity', customFnStr: 'x' };
+        return { name: 'identity', customFnStr: 'x', vectorFnStrs: defaultVectorComponents(n), params: [] };
     }
-    const candidate = input as Partial<{ name: string; customFnStr: string }>;
+    const candidate = input as Partial<{ name: string; customFnStr: string; vectorFnStrs: unknown; params: unknown }>;
     const name = typeof candidate.name === 'string' && candidate.name.length > 0 ? candidate.name : 'identity';
     const customFnStr = typeof candidate.customFnStr === 'string' ? candidate.customFnStr : 'x';
-    return { name, customFnStr };
+    const vectorFnStrs = Array.isArray(candidate.vectorFnStrs) && candidate.vectorFnStrs.length > 0
+        ? resizeVectorComponents(candidate.vectorFnStrs.map(value => (typeof value === 'string' ? value : '')), n)
+        : defaultVectorComponents(n);
+    const params = reconcileActivationParameters(
+        name,
+        customFnStr,
+        vectorFnStrs,
+        sanitizeActivationParameters(candidate.params),
+        n
+    );
+    return { name, customFnStr, vectorFnStrs, params };
 };
 
 const sanitizeProfileData = (data: ProfileData | null): ProfileData | null => {
     if (!data) return null;
     const animationConfig = sanitizeAnimationConfig(data.animationConfig);
-    const activationConfig = sanitizeActivation(data.activation);
     const ensureBoolean = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
     const preciseT = sanitizeNumber(data.tPrecision, 0.01);
     const safeT = sanitizeNumber(data.t, animationConfig.startT);
     const clampedT = THREE.MathUtils.clamp(safeT, animationConfig.startT, animationConfig.endT);
+    // Profiles saved before N×N support have no dimension and hold 3×3 data.
+    const dimension = clampDimension(sanitizeNumber(data.dimension, 3));
+    const activationConfig = sanitizeActivation(data.activation, dimension);
 
     return {
         version: data.version ?? 1,
-        matrixA: sanitizeMatrix3(data.matrixA),
-        vectors: sanitizeVectors(data.vectors),
+        dimension,
+        matrixA: sanitizeMatrix(data.matrixA, dimension),
+        vectors: sanitizeVectors(data.vectors, dimension),
         walls: sanitizeWalls(data.walls),
+        shapes: sanitizeShapes(data.shapes),
         t: clampedT,
         tPrecision: preciseT > 0 ? preciseT : 0.01,
         dotMode: ensureBoolean(data.dotMode, false),
@@ -185,6 +616,11 @@ const sanitizeProfileData = (data: ProfileData | null): ProfileData | null => {
         fadingPathStyle: sanitizeFadingStyle(data.fadingPathStyle),
         showStartMarkers: ensureBoolean(data.showStartMarkers, true),
         showEndMarkers: ensureBoolean(data.showEndMarkers, true),
+        showEigenvectors: ensureBoolean(data.showEigenvectors, false),
+        showDeterminantVolume: ensureBoolean(data.showDeterminantVolume, false),
+        showSingularEllipsoid: ensureBoolean(data.showSingularEllipsoid, false),
+        fieldOverlay: sanitizeFieldOverlay(data.fieldOverlay),
+        coordinateFrame: sanitizeCoordinateFrame(data.coordinateFrame),
         dynamicFadingPath: ensureBoolean(data.dynamicFadingPath, false),
         animationConfig,
         repeatAnimation: ensureBoolean(data.repeatAnimation, false),
@@ -193,7 +629,44 @@ const sanitizeProfileData = (data: ProfileData | null): ProfileData | null => {
         matrixScalar: sanitizeNumber(data.matrixScalar, 1),
         matrixExponent: Math.max(1, Math.round(sanitizeNumber(data.matrixExponent, 1))),
         normalizeMatrix: ensureBoolean(data.normalizeMatrix, false),
-        linearEigenInterpolation: ensureBoolean(data.linearEigenInterpolation, false)
+        linearEigenInterpolation: ensureBoolean(data.linearEigenInterpolation, false),
+        evaluationMode: sanitizeEvaluationMode(data.evaluationMode, data.linearEigenInterpolation),
+        branchPolicy: sanitizeBranchPolicy(data.branchPolicy),
+        branchIndex: Math.round(sanitizeNumber(data.branchIndex, 0)),
+        pathMode: sanitizePathMode(data.pathMode),
+        matrixB: sanitizeMatrix(data.matrixB, dimension, INITIAL_TARGET_PRESET.matrix),
+        selectedPresetNameB: typeof data.selectedPresetNameB === 'string' ? data.selectedPresetNameB : INITIAL_TARGET_PRESET.name,
+        geodesicBlend: sanitizeGeodesicBlend(data.geodesicBlend),
+        chainSegments: sanitizeChainSegments(data.chainSegments, dimension),
+        projection: sanitizeProjection(data.projection, dimension),
+        affine: ensureBoolean(data.affine, false),
+        translation: resizeVector(
+            Array.isArray(data.translation) ? data.translation.map(value => sanitizeNumber(value, 0)) : [],
+            dimension
+        ),
+        dynamicsMode: sanitizeDynamicsMode(data.dynamicsMode),
+        iterationSteps: clampIterationSteps(sanitizeNumber(data.iterationSteps, 20)),
+        iterationBias: resizeVector(
+            Array.isArray(data.iterationBias) ? data.iterationBias.map(value => sanitizeNumber(value, 0)) : [],
+            dimension
+        ),
+        cobweb: ensureBoolean(data.cobweb, false),
+        networkLayers: sanitizeNetworkLayers(data.networkLayers, dimension),
+        odeField: data.odeField === 'leaky' ? 'leaky' : 'activation',
+        odeSolver: data.odeSolver === 'rk4' ? 'rk4' : 'rk45',
+        odeStep: THREE.MathUtils.clamp(sanitizeNumber(data.odeStep, 0.01), 0.001, 0.5),
+        odeTolerance: sanitizeOdeTolerance(data.odeTolerance),
+        ...sanitizeFieldSystem(data, dimension),
+        parametricMatrix: sanitizeParametricMatrix(data.parametricMatrix, dimension),
+        timeVaryingExpressions: resizeExpressionMatrix(
+            Array.isArray(data.timeVaryingExpressions)
+                ? data.timeVaryingExpressions.map(row => (Array.isArray(row) ? row.map(value => (typeof value === 'string' ? value : '0')) : []))
+                : INITIAL_TIME_VARYING,
+            dimension,
+            '0'
+        ),
+        transitionIntegrator: data.transitionIntegrator === 'magnus' ? 'magnus' : 'rk4',
+        transitionStep: THREE.MathUtils.clamp(sanitizeNumber(data.transitionStep, 0.01), 0.001, 0.5)
     };
 };
 const mapEigenvalues = (
@@ -227,9 +700,14 @@ const mapEigenvalues = (
 
 function App() {
     // Core state
-    const [matrixA, setMatrixA] = useState<Matrix3>(INITIAL_MATRIX);
+    const [dimension, setDimension] = useState<number>(3);
+    const [matrixA, setMatrixA] = useState<Matrix>(INITIAL_MATRIX);
     const [vectors, setVectors] = useState<VectorObject[]>(INITIAL_VECTORS);
     const [walls, setWalls] = useState<Wall[]>([]);
+    // Imported meshes stay session-only like the point cloud; profiles keep the built-in shapes.
+    const [shapes, setShapes] = useState<ShapeObject[]>([]);
+    // Session-only: datasets of this size would not fit in the profile store.
+    const [pointCloud, setPointCloud] = useState<PointCloud | null>(null);
     const [t, setT] = useState<number>(0);
     const [tPrecision, setTPrecision] = useState<number>(0.01);
     const [error, setError] = useState<string | null>(null);
@@ -239,13 +717,44 @@ function App() {
     const [fadingPathStyle, setFadingPathStyle] = useState<FadingPathStyle>('smooth');
     const [showStartMarkers, setShowStartMarkers] = useState<boolean>(true);
     const [showEndMarkers, setShowEndMarkers] = useState<boolean>(true);
+    const [showEigenvectors, setShowEigenvectors] = useState<boolean>(false);
+    const [showDeterminantVolume, setShowDeterminantVolume] = useState<boolean>(false);
+    const [showSingularEllipsoid, setShowSingularEllipsoid] = useState<boolean>(false);
+    const [fieldOverlay, setFieldOverlay] = useState<FieldOverlayConfig>(INITIAL_FIELD_OVERLAY);
+    const [coordinateFrame, setCoordinateFrame] = useState<CoordinateFrameConfig>(INITIAL_COORDINATE_FRAME);
     const [dynamicFadingPath, setDynamicFadingPath] = useState<boolean>(false);
     const [selectedPresetName, setSelectedPresetName] = useState(PRESET_MATRICES[0].name);
     const [matrixScalar, setMatrixScalar] = useState<number>(1);
     const [matrixExponent, setMatrixExponent] = useState<number>(1);
     const [normalizeMatrix, setNormalizeMatrix] = useState<boolean>(false);
     const [normalizationWarning, setNormalizationWarning] = useState<string | null>(null);
-    const [linearEigenInterpolation, setLinearEigenInterpolation] = useState<boolean>(false);
+    const [evaluationMode, setEvaluationMode] = useState<EvaluationMode>('power');
+    const [branchPolicy, setBranchPolicy] = useState<BranchPolicy>('principal');
+    const [branchIndex, setBranchIndex] = useState<number>(0);
+    const [pathMode, setPathMode] = useState<PathMode>('identity');
+    const [matrixB, setMatrixB] = useState<Matrix>(INITIAL_TARGET_PRESET.matrix);
+    const [selectedPresetNameB, setSelectedPresetNameB] = useState(INITIAL_TARGET_PRESET.name);
+    const [geodesicBlend, setGeodesicBlend] = useState<GeodesicBlend>('relative');
+    const [chainSegments, setChainSegments] = useState<ChainSegment[]>(INITIAL_CHAIN);
+    const [projection, setProjection] = useState<ProjectionConfig>(INITIAL_PROJECTION);
+    const [affine, setAffine] = useState<boolean>(false);
+    const [translation, setTranslation] = useState<Vector>([1, 0, 0]);
+    const [dynamicsMode, setDynamicsMode] = useState<DynamicsMode>('interpolate');
+    const [iterationSteps, setIterationSteps] = useState<number>(20);
+    const [iterationBias, setIterationBias] = useState<Vector>([0, 0, 0]);
+    const [cobweb, setCobweb] = useState<boolean>(false);
+    const [networkLayers, setNetworkLayers] = useState<NetworkLayer[]>(INITIAL_NETWORK);
+    const [odeField, setOdeField] = useState<OdeField>('leaky');
+    const [odeSolver, setOdeSolver] = useState<OdeSolver>('rk45');
+    const [odeStep, setOdeStep] = useState<number>(0.01);
+    const [odeTolerance, setOdeTolerance] = useState<number>(1e-6);
+    const [fieldExpressions, setFieldExpressions] = useState<string[]>(VECTOR_FIELD_PRESETS[0].expressions);
+    const [fieldParams, setFieldParams] = useState<ActivationParameter[]>(VECTOR_FIELD_PRESETS[0].params);
+    const [fieldPresetName, setFieldPresetName] = useState<string>(VECTOR_FIELD_PRESETS[0].name);
+    const [parametricMatrix, setParametricMatrix] = useState<ParametricMatrix>(() => sanitizeParametricMatrix(null, 3));
+    const [timeVaryingExpressions, setTimeVaryingExpressions] = useState<string[][]>(INITIAL_TIME_VARYING);
+    const [transitionIntegrator, setTransitionIntegrator] = useState<TransitionIntegrator>('magnus');
+    const [transitionStep, setTransitionStep] = useState<number>(0.01);
     const [profileSummaries, setProfileSummaries] = useState<ProfileSummary[]>([]);
     const [activeProfileName, setActiveProfileName] = useState<string | null>(null);
 
@@ -269,28 +778,80 @@ function App() {
     const [activation, setActivation] = useState<{
         name: string;
         customFnStr: string;
-        currentFn: ActivationFunction;
+        vectorFnStrs: string[];
+        params: ActivationParameter[];
+        currentFn: VectorActivationFunction;
         error: string | null;
     }>({
         name: 'identity',
         customFnStr: 'x',
-        currentFn: activationFunctionMap.identity,
+        vectorFnStrs: defaultVectorComponents(3),
+        params: [],
+        currentFn: componentwise(activationFunctionMap.identity),
         error: null
     });
 
     // Effect to parse custom activation function string
     useEffect(() => {
+        const values = parameterValues(activation.params);
         if (activation.name === 'custom') {
-            const { fn, error } = parseCustomActivation(activation.customFnStr);
-            setActivation(a => ({ ...a, currentFn: fn || ((x: number) => NaN), error }));
+            const { fn, error } = parseCustomActivation(activation.customFnStr, values);
+            setActivation(a => ({ ...a, currentFn: componentwise(fn || ((x: number) => NaN)), error }));
+        } else if (activation.name === 'customVector') {
+            const { fn, error } = parseVectorActivation(activation.vectorFnStrs, dimension, values);
+            setActivation(a => ({ ...a, currentFn: fn || ((v) => v.map(() => NaN)), error }));
+        } else if (PARAMETERIZED_ACTIVATIONS[activation.name]) {
+            const { fn } = resolveActivation(activation.name, activation.customFnStr, values);
+            setActivation(a => ({ ...a, currentFn: componentwise(fn ?? activationFunctionMap.identity), error: null }));
         } else {
             setActivation(a => ({
                 ...a,
-                currentFn: activationFunctionMap[a.name as keyof typeof activationFunctionMap] || activationFunctionMap.identity,
+                currentFn: componentwise(activationFunctionMap[a.name as keyof typeof activationFunctionMap] || activationFunctionMap.identity),
                 error: null
             }));
         }
-    }, [activation.name, activation.customFnStr]);
+    }, [activation.name, activation.customFnStr, activation.vectorFnStrs, activation.params, dimension]);
+
+    // Animated matrix parameters sweep their range as t runs from the start to the end time.
+    const animatedParameters = parametricMatrix.params.some(param => param.animated);
+    const parameterProgress = animatedParameters && animationConfig.endT > animationConfig.startT
+        ? THREE.MathUtils.clamp((t - animationConfig.startT) / (animationConfig.endT - animationConfig.startT), 0, 1)
+        : 0;
+
+    const matrixParamValues = useMemo(() => Object.fromEntries(parametricMatrix.params.map(param => [
+        param.name,
+        param.animated ? param.min + (param.max - param.min) * parameterProgress : param.value
+    ])), [parametricMatrix.params, parameterProgress]);
+
+    const compiledMatrixExpressions = useMemo(
+        () => (parametricMatrix.enabled ? parseMatrixExpressions(parametricMatrix.expressions) : null),
+        [parametricMatrix.enabled, parametricMatrix.expressions]
+    );
+
+    const parametricResult = useMemo(() => {
+        if (!compiledMatrixExpressions) return { matrix: null as Matrix | null, error: null as string | null };
+        if (!compiledMatrixExpressions.evaluate) return { matrix: null, error: compiledMatrixExpressions.error };
+        try {
+            return { matrix: compiledMatrixExpressions.evaluate(matrixParamValues), error: null };
+        } catch (e: any) {
+            return { matrix: null, error: e.message || 'Invalid expression' };
+        }
+    }, [compiledMatrixExpressions, matrixParamValues]);
+
+    // A stays the single source for every path; expression entries just keep writing into it.
+    useEffect(() => {
+        if (parametricResult.matrix) {
+            setMatrixA(parametricResult.matrix);
+        }
+    }, [parametricResult.matrix]);
+
+    // Editing the expression or switching presets redeclares the parameters; sliders only change values.
+    const handleActivationConfigChange = useCallback((next: typeof activation) => {
+        setActivation({
+            ...next,
+            params: reconcileActivationParameters(next.name, next.customFnStr, next.vectorFnStrs, next.params, dimension)
+        });
+    }, [dimension]);
 
 
     const stopAnimation = useCallback(() => {
@@ -364,7 +925,48 @@ function App() {
 
 
     // --- Handlers ---
-    const handleMatrixChange = useCallback((newMatrix: Matrix3) => {
+    // Every matrix, vector and the projection follow the dimension so the evaluators always see N×N data.
+    const handleDimensionChange = useCallback((value: number) => {
+        const n = clampDimension(value);
+        setDimension(n);
+        setMatrixA(prev => resizeMatrix(prev, n));
+        setMatrixB(prev => resizeMatrix(prev, n));
+        setChainSegments(prev => resizeChain(prev, n));
+        setVectors(prev => prev.map(vector => ({ ...vector, value: resizeVector(vector.value, n) })));
+        setProjection(prev => resizeProjection(prev, n));
+        setTranslation(prev => resizeVector(prev, n));
+        setIterationBias(prev => resizeVector(prev, n));
+        setNetworkLayers(prev => resizeNetwork(prev, n));
+        setFieldExpressions(prev => resizeFieldExpressions(prev, n));
+        setTimeVaryingExpressions(prev => resizeExpressionMatrix(prev, n, '0'));
+        setParametricMatrix(prev => {
+            const expressions = resizeExpressionMatrix(prev.expressions, n);
+            return { ...prev, expressions, params: reconcileMatrixParameters(expressions, prev.params) };
+        });
+        setFieldPresetName('Custom');
+        setActivation(prev => {
+            const vectorFnStrs = resizeVectorComponents(prev.vectorFnStrs, n);
+            return {
+                ...prev,
+                vectorFnStrs,
+                params: reconcileActivationParameters(prev.name, prev.customFnStr, vectorFnStrs, prev.params, n)
+            };
+        });
+        setSelectedPresetName(prev => presetNameFor(prev, n));
+        setSelectedPresetNameB(prev => presetNameFor(prev, n));
+        setChainSegments(prev => prev.map(segment => ({ ...segment, presetName: presetNameFor(segment.presetName, n) })));
+    }, []);
+
+    // A preset larger than the current space switches the dimension up; smaller ones are embedded.
+    const fitPresetMatrix = useCallback((matrix: Matrix): Matrix => {
+        const size = Math.max(dimension, matrix.length);
+        if (size !== dimension) {
+            handleDimensionChange(size);
+        }
+        return resizeMatrix(matrix, size);
+    }, [dimension, handleDimensionChange]);
+
+    const handleMatrixChange = useCallback((newMatrix: Matrix) => {
         setMatrixA(newMatrix);
         setSelectedPresetName('Custom');
     }, []);
@@ -372,9 +974,130 @@ function App() {
     const handlePresetSelect = useCallback((name: string) => {
         const preset = PRESET_MATRICES.find(p => p.name === name);
         if (preset) {
+            setParametricMatrix(prev => (prev.enabled ? { ...prev, enabled: false } : prev));
             setSelectedPresetName(name);
-            setMatrixA(preset.matrix);
+            setMatrixA(fitPresetMatrix(preset.matrix));
+        }
+    }, [fitPresetMatrix]);
+
+    // Switching to expressions starts from the matrix on screen, so nothing jumps.
+    const handleParametricToggle = useCallback((enabled: boolean) => {
+        if (enabled) {
+            const expressions = matrixA.map(row => row.map(formatMatrixEntry));
+            setParametricMatrix(prev => ({ enabled: true, expressions, params: reconcileMatrixParameters(expressions, prev.params) }));
+            setSelectedPresetName('Custom');
+        } else {
+            setParametricMatrix(prev => ({ ...prev, enabled: false }));
         }
+    }, [matrixA]);
+
+    const handleMatrixExpressionsChange = useCallback((expressions: string[][]) => {
+        setParametricMatrix(prev => ({ ...prev, expressions, params: reconcileMatrixParameters(expressions, prev.params) }));
+    }, []);
+
+    const handleMatrixParamsChange = useCallback((params: MatrixParameter[]) => {
+        setParametricMatrix(prev => ({ ...prev, params }));
+    }, []);
+
+    const handleParametricPresetSelect = useCallback((name: string) => {
+        const preset = PARAMETRIC_PRESETS.find(candidate => candidate.name === name);
+        if (!preset) return;
+        const size = Math.max(dimension, preset.expressions.length);
+        if (size !== dimension) {
+            handleDimensionChange(size);
+        }
+        setParametricMatrix({
+            enabled: true,
+            expressions: resizeExpressionMatrix(preset.expressions, size),
+            params: preset.params.map(param => ({ ...param }))
+        });
+        setSelectedPresetName('Custom');
+    }, [dimension, handleDimensionChange]);
+
+    const handleMatrixBChange = useCallback((newMatrix: Matrix) => {
+        setMatrixB(newMatrix);
+        setSelectedPresetNameB('Custom');
+    }, []);
+
+    const handlePresetBSelect = useCallback((name: string) => {
+        const preset = PRESET_MATRICES.find(p => p.name === name);
+        if (preset) {
+            setSelectedPresetNameB(name);
+            setMatrixB(fitPresetMatrix(preset.matrix));
+        }
+    }, [fitPresetMatrix]);
+
+    const handleAddChainSegment = useCallback(() => {
+        setChainSegments(prev => {
+            if (prev.length >= MAX_CHAIN_SEGMENTS) return prev;
+            // A segment cannot switch the dimension the way the A editor does, so larger presets are left out.
+            const presets = presetsForDimension(dimension)
+                .filter(preset => preset.name !== 'Custom' && preset.matrix.length <= dimension);
+            const preset = presets[prev.length % presets.length];
+            return [...prev, { id: Date.now(), matrix: resizeMatrix(preset.matrix, dimension), presetName: preset.name, duration: 1 }];
+        });
+    }, [dimension]);
+
+    const handleUpdateChainSegment = useCallback((id: number, updates: Partial<Omit<ChainSegment, 'id'>>) => {
+        const matrix = updates.matrix ? fitPresetMatrix(updates.matrix) : undefined;
+        setChainSegments(prev => prev.map(segment => {
+            if (segment.id !== id) return segment;
+            const next = { ...segment, ...updates, ...(matrix ? { matrix } : {}) };
+            if (updates.matrix && updates.presetName === undefined) {
+                next.presetName = 'Custom';
+            }
+            if (!Number.isFinite(next.duration) || next.duration <= 0) {
+                next.duration = segment.duration;
+            }
+            return next;
+        }));
+    }, [fitPresetMatrix]);
+
+    const handleRemoveChainSegment = useCallback((id: number) => {
+        setChainSegments(prev => (prev.length <= 1 ? prev : prev.filter(segment => segment.id !== id)));
+    }, []);
+
+    const handleMoveChainSegment = useCallback((id: number, offset: -1 | 1) => {
+        setChainSegments(prev => {
+            const index = prev.findIndex(segment => segment.id === id);
+            const target = index + offset;
+            if (index === -1 || target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    }, []);
+
+    const handleAddNetworkLayer = useCallback(() => {
+        setNetworkLayers(prev => {
+            if (prev.length >= MAX_NETWORK_LAYERS) return prev;
+            return [...prev, {
+                id: Date.now(),
+                matrix: identityMatrix(dimension),
+                bias: new Array(dimension).fill(0),
+                activation: 'tanh',
+                customFnStr: 'x'
+            }];
+        });
+    }, [dimension]);
+
+    const handleUpdateNetworkLayer = useCallback((id: number, updates: Partial<Omit<NetworkLayer, 'id'>>) => {
+        setNetworkLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, ...updates } : layer)));
+    }, []);
+
+    const handleRemoveNetworkLayer = useCallback((id: number) => {
+        setNetworkLayers(prev => (prev.length <= 1 ? prev : prev.filter(layer => layer.id !== id)));
+    }, []);
+
+    const handleMoveNetworkLayer = useCallback((id: number, offset: -1 | 1) => {
+        setNetworkLayers(prev => {
+            const index = prev.findIndex(layer => layer.id === id);
+            const target = index + offset;
+            if (index === -1 || target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
     }, []);
 
     const handleAddVector = useCallback(() => {
@@ -382,19 +1105,19 @@ function App() {
             if (prev.length >= VECTOR_COLORS.length) return prev;
             const newVector: VectorObject = {
                 id: Date.now(),
-                value: [Math.random() * 4 - 2, Math.random() * 4 - 2, Math.random() * 4 - 2],
+                value: Array.from({ length: dimension }, () => Math.random() * 4 - 2),
                 visible: true,
                 color: VECTOR_COLORS[prev.length % VECTOR_COLORS.length]
             };
             return [...prev, newVector];
         });
-    }, []);
+    }, [dimension]);
 
     const handleRemoveVector = useCallback((id: number) => {
         setVectors(prev => prev.filter(v => v.id !== id));
     }, []);
 
-    const handleVectorChange = useCallback((id: number, newValue: Vector3) => {
+    const handleVectorChange = useCallback((id: number, newValue: Vector) => {
         setVectors(prev => prev.map(v => v.id === id ? { ...v, value: newValue } : v));
     }, []);
     
@@ -408,13 +1131,11 @@ function App() {
 
     const handleNormalizeVectors = useCallback(() => {
         setVectors(prev => prev.map(vector => {
-            const [x, y, z] = vector.value;
-            const length = Math.hypot(x, y, z);
+            const length = Math.hypot(...vector.value);
             if (!Number.isFinite(length) || length === 0) {
                 return vector;
             }
-            const normalized: Vector3 = [x / length, y / length, z / length];
-            return { ...vector, value: normalized };
+            return { ...vector, value: vector.value.map(component => component / length) };
         }));
     }, []);
 
@@ -440,6 +1161,65 @@ function App() {
         setWalls(prev => prev.filter(wall => wall.id !== id));
     }, []);
 
+    const handleAddShape = useCallback((kind: Exclude<ShapeKind, 'mesh'>) => {
+        setShapes(prev => [...prev, {
+            id: Date.now() + Math.floor(Math.random() * 1000),
+            kind,
+            visible: true,
+            color: VECTOR_COLORS[prev.length % VECTOR_COLORS.length]
+        }]);
+    }, []);
+
+    // Returns an error message for the panel, or null once the mesh is added.
+    const handleImportShapeMesh = useCallback((name: string, data: ArrayBuffer): string | null => {
+        let mesh: ShapeMesh;
+        try {
+            mesh = parseMeshFile(name, data);
+        } catch (error) {
+            return error instanceof Error ? error.message : `Could not read ${name}.`;
+        }
+        setShapes(prev => [...prev, {
+            id: Date.now() + Math.floor(Math.random() * 1000),
+            kind: 'mesh',
+            visible: true,
+            color: VECTOR_COLORS[prev.length % VECTOR_COLORS.length],
+            mesh
+        }]);
+        return null;
+    }, []);
+
+    const handleUpdateShape = useCallback((id: number, updates: Partial<Pick<ShapeObject, 'visible' | 'color'>>) => {
+        setShapes(prev => prev.map(shape => shape.id === id ? { ...shape, ...updates } : shape));
+    }, []);
+
+    const handleRemoveShape = useCallback((id: number) => {
+        setShapes(prev => prev.filter(shape => shape.id !== id));
+    }, []);
+
+    const handleImportPointCloud = useCallback((name: string, text: string): string | null => {
+        try {
+            const table = parsePointCloud(name, text);
+            setPointCloud({
+                name,
+                ...table,
+                visible: true,
+                coloring: table.labels ? 'label' : 'colormap',
+                colormapColumn: 0,
+                color: '#60a5fa',
+                pointSize: 0.05
+            });
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : `Could not read ${name}.`;
+        }
+    }, []);
+
+    const handlePointCloudChange = useCallback((updates: Partial<Pick<PointCloud, 'visible' | 'coloring' | 'colormapColumn' | 'color' | 'pointSize'>>) => {
+        setPointCloud(prev => (prev ? { ...prev, ...updates } : prev));
+    }, []);
+
+    const handleRemovePointCloud = useCallback(() => setPointCloud(null), []);
+
     const handlePlayPause = useCallback(() => {
         if (isPlaying) {
             stopAnimation();
@@ -475,8 +1255,12 @@ function App() {
         }
     }, []);
 
-    const handleLinearInterpolationToggle = useCallback((enabled: boolean) => {
-        setLinearEigenInterpolation(enabled);
+    const handleEvaluationModeChange = useCallback((mode: EvaluationMode) => {
+        setEvaluationMode(mode);
+    }, []);
+
+    const handleBranchIndexChange = useCallback((value: number) => {
+        setBranchIndex(Number.isFinite(value) ? Math.round(value) : 0);
     }, []);
 
     const handleRepeatToggle = useCallback((enabled: boolean) => {
@@ -491,18 +1275,66 @@ function App() {
         setFadingPathLength(safeLength);
     }, []);
 
+    const handleIterationStepsChange = useCallback((steps: number) => {
+        setIterationSteps(clampIterationSteps(steps));
+    }, []);
+
+    const handleFieldExpressionsChange = useCallback((expressions: string[]) => {
+        setFieldExpressions(expressions);
+        setFieldParams(prev => reconcileExpressionParameters(expressions, prev, dimension));
+        setFieldPresetName('Custom');
+    }, [dimension]);
+
+    // A preset brings its own dimension, so everything else is resized to match it.
+    const handleFieldPresetSelect = useCallback((name: string) => {
+        const preset = VECTOR_FIELD_PRESETS.find(candidate => candidate.name === name);
+        if (!preset) return;
+        if (preset.expressions.length !== dimension) {
+            handleDimensionChange(preset.expressions.length);
+        }
+        setFieldExpressions(preset.expressions);
+        setFieldParams(preset.params.map(param => ({ ...param })));
+        setFieldPresetName(preset.name);
+    }, [dimension, handleDimensionChange]);
+
+    // Sanitized like a loaded profile, so the panel can pass raw input values through.
+    const handleFieldOverlayChange = useCallback((config: FieldOverlayConfig) => {
+        setFieldOverlay(sanitizeFieldOverlay(config));
+    }, []);
+
+    const handleCoordinateFrameChange = useCallback((config: CoordinateFrameConfig) => {
+        setCoordinateFrame(sanitizeCoordinateFrame(config));
+    }, []);
+
+    const handleTransitionStepChange = useCallback((step: number) => {
+        if (Number.isFinite(step)) {
+            setTransitionStep(THREE.MathUtils.clamp(step, 0.001, 0.5));
+        }
+    }, []);
+
+    const handleOdeStepChange = useCallback((step: number) => {
+        setOdeStep(Number.isFinite(step) ? THREE.MathUtils.clamp(step, 0.001, 0.5) : 0.01);
+    }, []);
+
     const profileSnapshot = useMemo<ProfileData>(() => {
-        const clonedMatrix = matrixA.map(row => [...row] as Vector3) as Matrix3;
+        const clonedMatrix = matrixA.map(row => [...row]);
         const clonedVectors = vectors.map(vector => ({
             ...vector,
-            value: [...vector.value] as Vector3
+            value: [...vector.value]
         }));
+        const clonedMatrixB = matrixB.map(row => [...row]);
         const clonedWalls = walls.map(wall => ({ ...wall }));
+        const clonedChain = chainSegments.map(segment => ({
+            ...segment,
+            matrix: segment.matrix.map(row => [...row])
+        }));
         return {
             version: getProfileVersion(),
+            dimension,
             matrixA: clonedMatrix,
             vectors: clonedVectors,
             walls: clonedWalls,
+            shapes: shapes.filter(shape => shape.kind !== 'mesh').map(shape => ({ ...shape })),
             t,
             tPrecision,
             dotMode,
@@ -511,6 +1343,11 @@ function App() {
             fadingPathStyle,
             showStartMarkers,
             showEndMarkers,
+            showEigenvectors,
+            showDeterminantVolume,
+            showSingularEllipsoid,
+            fieldOverlay: { ...fieldOverlay },
+            coordinateFrame: { ...coordinateFrame },
             dynamicFadingPath,
             animationConfig: {
                 duration: animationConfig.duration,
@@ -521,18 +1358,61 @@ function App() {
             repeatAnimation,
             activation: {
                 name: activation.name,
-                customFnStr: activation.customFnStr
+                customFnStr: activation.customFnStr,
+                vectorFnStrs: [...activation.vectorFnStrs],
+                params: activation.params.map(param => ({ ...param }))
             },
             selectedPresetName,
             matrixScalar,
             matrixExponent,
             normalizeMatrix,
-            linearEigenInterpolation
+            linearEigenInterpolation: evaluationMode === 'linear',
+            evaluationMode,
+            branchPolicy,
+            branchIndex,
+            pathMode,
+            matrixB: clonedMatrixB,
+            selectedPresetNameB,
+            geodesicBlend,
+            chainSegments: clonedChain,
+            projection: {
+                mode: projection.mode,
+                axes: [...projection.axes] as [number, number, number],
+                matrix: projection.matrix.map(row => [...row])
+            },
+            affine,
+            translation: [...translation],
+            dynamicsMode,
+            iterationSteps,
+            iterationBias: [...iterationBias],
+            cobweb,
+            networkLayers: networkLayers.map(layer => ({
+                ...layer,
+                matrix: layer.matrix.map(row => [...row]),
+                bias: [...layer.bias]
+            })),
+            odeField,
+            odeSolver,
+            odeStep,
+            odeTolerance,
+            fieldExpressions: [...fieldExpressions],
+            fieldParams: fieldParams.map(param => ({ ...param })),
+            fieldPresetName,
+            parametricMatrix: {
+                ...parametricMatrix,
+                expressions: parametricMatrix.expressions.map(row => [...row]),
+                params: parametricMatrix.params.map(param => ({ ...param }))
+            },
+            timeVaryingExpressions: timeVaryingExpressions.map(row => [...row]),
+            transitionIntegrator,
+            transitionStep
         };
     }, [
+        dimension,
         matrixA,
         vectors,
         walls,
+        shapes,
         t,
         tPrecision,
         dotMode,
@@ -541,6 +1421,11 @@ function App() {
         fadingPathStyle,
         showStartMarkers,
         showEndMarkers,
+        showEigenvectors,
+        showDeterminantVolume,
+        showSingularEllipsoid,
+        fieldOverlay,
+        coordinateFrame,
         dynamicFadingPath,
         animationConfig.duration,
         animationConfig.startT,
@@ -549,11 +1434,39 @@ function App() {
         repeatAnimation,
         activation.name,
         activation.customFnStr,
+        activation.vectorFnStrs,
+        activation.params,
         selectedPresetName,
         matrixScalar,
         matrixExponent,
         normalizeMatrix,
-        linearEigenInterpolation
+        evaluationMode,
+        branchPolicy,
+        branchIndex,
+        pathMode,
+        matrixB,
+        selectedPresetNameB,
+        geodesicBlend,
+        chainSegments,
+        projection,
+        affine,
+        translation,
+        dynamicsMode,
+        iterationSteps,
+        iterationBias,
+        cobweb,
+        networkLayers,
+        odeField,
+        odeSolver,
+        odeStep,
+        odeTolerance,
+        fieldExpressions,
+        fieldParams,
+        fieldPresetName,
+        parametricMatrix,
+        timeVaryingExpressions,
+        transitionIntegrator,
+        transitionStep
     ]);
 
     const applyProfileData = useCallback((rawData: ProfileData | null) => {
@@ -562,19 +1475,52 @@ function App() {
             return;
         }
         stopAnimation();
+        setDimension(data.dimension);
         setMatrixA(data.matrixA);
         setVectors(data.vectors);
         setWalls(data.walls);
+        setShapes(prev => [...data.shapes, ...prev.filter(shape => shape.kind === 'mesh')]);
         handleMatrixScalarChange(data.matrixScalar);
         handleMatrixExponentChange(data.matrixExponent);
         setNormalizeMatrix(data.normalizeMatrix);
-        setLinearEigenInterpolation(data.linearEigenInterpolation);
+        setEvaluationMode(data.evaluationMode);
+        setBranchPolicy(data.branchPolicy);
+        handleBranchIndexChange(data.branchIndex);
+        setPathMode(data.pathMode);
+        setMatrixB(data.matrixB);
+        setSelectedPresetNameB(data.selectedPresetNameB);
+        setGeodesicBlend(data.geodesicBlend);
+        setChainSegments(data.chainSegments);
+        setProjection(data.projection);
+        setAffine(data.affine);
+        setTranslation(data.translation);
+        setDynamicsMode(data.dynamicsMode);
+        setIterationSteps(data.iterationSteps);
+        setIterationBias(data.iterationBias);
+        setCobweb(data.cobweb);
+        setNetworkLayers(data.networkLayers);
+        setOdeField(data.odeField);
+        setOdeSolver(data.odeSolver);
+        setOdeStep(data.odeStep);
+        setOdeTolerance(data.odeTolerance);
+        setFieldExpressions(data.fieldExpressions);
+        setFieldParams(data.fieldParams);
+        setFieldPresetName(data.fieldPresetName);
+        setParametricMatrix(data.parametricMatrix);
+        setTimeVaryingExpressions(data.timeVaryingExpressions);
+        setTransitionIntegrator(data.transitionIntegrator);
+        setTransitionStep(data.transitionStep);
         setDotMode(data.dotMode);
         setFadingPath(data.fadingPath);
         handleFadingPathLengthChange(data.fadingPathLength);
         setFadingPathStyle(data.fadingPathStyle);
         setShowStartMarkers(data.showStartMarkers);
         setShowEndMarkers(data.showEndMarkers);
+        setShowEigenvectors(data.showEigenvectors);
+        setShowDeterminantVolume(data.showDeterminantVolume);
+        setShowSingularEllipsoid(data.showSingularEllipsoid);
+        setFieldOverlay(data.fieldOverlay);
+        setCoordinateFrame(data.coordinateFrame);
         setDynamicFadingPath(data.dynamicFadingPath);
         setAnimationConfig({
             duration: data.animationConfig.duration,
@@ -586,7 +1532,9 @@ function App() {
         setActivation(prev => ({
             ...prev,
             name: data.activation.name,
-            customFnStr: data.activation.customFnStr
+            customFnStr: data.activation.customFnStr,
+            vectorFnStrs: data.activation.vectorFnStrs,
+            params: data.activation.params
         }));
         setSelectedPresetName(data.selectedPresetName);
         setTPrecision(data.tPrecision);
@@ -596,6 +1544,7 @@ function App() {
         stopAnimation,
         handleMatrixScalarChange,
         handleMatrixExponentChange,
+        handleBranchIndexChange,
         handleFadingPathLengthChange
     ]);
 
@@ -690,8 +1639,8 @@ function App() {
             return Number.isFinite(parsed) ? parsed : 0;
         };
 
-        const toMatrix3 = (input: number[][]): Matrix3 => {
-            return input.map(row => [toNumber(row[0]), toNumber(row[1]), toNumber(row[2])] as Vector3) as Matrix3;
+        const toMatrix = (input: number[][]): Matrix => {
+            return input.map(row => row.map(toNumber));
         };
 
         const safeScalar = Number.isFinite(matrixScalar) ? matrixScalar : 1;
@@ -702,7 +1651,7 @@ function App() {
             const scaledMatrix = math.multiply(baseMatrix, safeScalar) as math.Matrix;
             const poweredMatrix = safeExponent === 1 ? scaledMatrix : (math.pow(scaledMatrix, safeExponent) as math.Matrix);
             const poweredArray = poweredMatrix.toArray() as number[][];
-            const adjustedMatrix = toMatrix3(poweredArray);
+            const adjustedMatrix = toMatrix(poweredArray);
 
             const determinantBefore = Number(math.det(poweredMatrix));
             let normalizationApplied = false;
@@ -714,10 +1663,10 @@ function App() {
                 if (Math.abs(determinantBefore) < 1e-8) {
                     normalizationFailed = true;
                 } else {
-                    const detRoot = Math.cbrt(Math.abs(determinantBefore));
+                    const detRoot = Math.pow(Math.abs(determinantBefore), 1 / matrixA.length);
                     const normalizedMatrix = math.divide(poweredMatrix, detRoot) as math.Matrix;
                     const normalizedArray = normalizedMatrix.toArray() as number[][];
-                    effectiveMatrix = toMatrix3(normalizedArray);
+                    effectiveMatrix = toMatrix(normalizedArray);
                     normalizationApplied = true;
                     determinantAfter = Number(math.det(normalizedMatrix));
                 }
@@ -763,10 +1712,89 @@ function App() {
         setNormalizationWarning(null);
     }, [matrixA, matrixScalar, matrixExponent]);
 
+    // Iteration and network modes bring their own maps; the continuous path settings are kept but set aside.
+    const interpolating = dynamicsMode === 'interpolate';
+    const iterating = dynamicsMode === 'iterate';
+    const networking = dynamicsMode === 'network';
+    const integrating = dynamicsMode === 'neuralOde';
+
+    // A flow ends at e^A rather than at B or at a layer's W, so those paths run on powers;
+    // the stored choice is left alone for when the user switches back.
+    const effectiveEvaluationMode: EvaluationMode = evaluationMode === 'flow' && (networking || (interpolating && pathMode === 'geodesic'))
+        ? 'power'
+        : evaluationMode;
+    const fieldMode = dynamicsMode === 'vectorField';
+
+    const fieldSystem = useMemo(() => {
+        if (!fieldMode) return { field: null as VectorField | null, error: null as string | null };
+        const { fn, error } = parseVectorActivation(fieldExpressions, dimension, parameterValues(fieldParams));
+        return { field: fn, error: error ? `Vector field: ${error}` : null };
+    }, [fieldMode, fieldExpressions, fieldParams, dimension]);
+
+    const chainEvaluator = useMemo(() => {
+        if (pathMode !== 'chain' || !interpolating) return null;
+        return createChainEvaluator(chainSegments);
+    }, [pathMode, chainSegments, interpolating]);
+
+    // x' = A(t)x has no matrix power, so Φ(t) is integrated from the entry expressions instead.
+    const transitionSystem = useMemo(() => {
+        if (pathMode !== 'timeVarying' || !interpolating) {
+            return { evaluator: null, matrixFn: null as ((time: number) => Matrix) | null, error: null as string | null };
+        }
+        const { evaluate, error } = parseMatrixExpressions(timeVaryingExpressions);
+        if (!evaluate) return { evaluator: null, matrixFn: null, error: `A(t): ${error}` };
+        const matrixFn = (time: number) => evaluate({ t: time });
+        try {
+            matrixFn(0);
+        } catch (e: any) {
+            return { evaluator: null, matrixFn: null, error: `A(t): ${e.message}` };
+        }
+        return {
+            evaluator: createTransitionEvaluator(matrixFn, { integrator: transitionIntegrator, step: transitionStep }),
+            matrixFn,
+            error: null
+        };
+    }, [pathMode, interpolating, timeVaryingExpressions, transitionIntegrator, transitionStep]);
+
+    const networkResult = useMemo(() => {
+        if (!networking) return { evaluator: null, error: null as string | null };
+        const inputs: NetworkLayerInput[] = [];
+        for (const [index, layer] of networkLayers.entries()) {
+            const { fn, error } = resolveActivation(layer.activation, layer.customFnStr);
+            if (!fn) {
+                return { evaluator: null, error: `Layer ${index + 1} activation: ${error ?? 'invalid expression'}` };
+            }
+            inputs.push({ matrix: layer.matrix, bias: layer.bias, activationFn: componentwise(fn) });
+        }
+        const evaluator = createNetworkEvaluator(inputs);
+        return { evaluator, error: evaluator ? null : 'Network unavailable: a layer matrix could not be decomposed.' };
+    }, [networking, networkLayers]);
+    const networkEvaluator = networkResult.evaluator;
+
     const matrixEvaluator = useMemo(() => {
+        if (!interpolating) return null;
+        if (pathMode === 'chain') return chainEvaluator;
+        if (pathMode === 'timeVarying') return transitionSystem.evaluator;
         if (!matrixPreparation.matrix) return null;
+        if (pathMode === 'geodesic') {
+            return createGeodesicEvaluator(matrixPreparation.matrix, matrixB, geodesicBlend);
+        }
+        if (affine) {
+            return createAffineEvaluator(matrixPreparation.matrix, translation);
+        }
         return createMatrixEvaluator(matrixPreparation.matrix);
-    }, [matrixPreparation.matrix]);
+    }, [matrixPreparation.matrix, pathMode, matrixB, geodesicBlend, chainEvaluator, transitionSystem.evaluator, affine, translation, interpolating]);
+
+    // Translation only applies on the I → A path; geodesic and chain paths stay linear.
+    const affineActive = affine && pathMode === 'identity' && interpolating;
+    // An affine A(t) is homogeneous, (N+1)×(N+1), and sends x to Ax + b.
+    const applyMatrix = affineActive ? applyHomogeneous : multiplyMatrixVector;
+
+    const transformOptions = useMemo<TransformOptions>(() => ({
+        mode: effectiveEvaluationMode,
+        branch: branchPolicy,
+        branchIndex
+    }), [effectiveEvaluationMode, branchPolicy, branchIndex]);
 
     const samplingConfig = useMemo(() => {
         const range = animationConfig.endT - animationConfig.startT;
@@ -775,7 +1803,7 @@ function App() {
         const effectiveStep = Math.min(safePrecision, baseStep);
 
         if (range <= 0) {
-            return { times: [] as number[], range, totalSteps: 0 };
+            return { times: [] as number[], range, totalSteps: 0, boundaryIndices: [] as number[] };
         }
 
         const totalSteps = Math.max(1, Math.ceil(range / effectiveStep));
@@ -784,29 +1812,122 @@ function App() {
             times[i] = animationConfig.startT + (i / totalSteps) * range;
         }
 
-        return { times, range, totalSteps };
-    }, [animationConfig.startT, animationConfig.endT, tPrecision]);
+        // Chain segment and layer boundaries are sampled exactly so every kink lands on the traced path.
+        const boundaryTimes = ((chainEvaluator ?? networkEvaluator)?.boundaries ?? []).filter(
+            time => time > animationConfig.startT && time < animationConfig.endT
+        );
+        if (boundaryTimes.length === 0) {
+            return { times, range, totalSteps, boundaryIndices: [] as number[] };
+        }
+        const merged = [...times, ...boundaryTimes].sort((a, b) => a - b);
+        const boundaryIndices = boundaryTimes.map(time => merged.indexOf(time));
+        return { times: merged, range, totalSteps: merged.length - 1, boundaryIndices };
+    }, [animationConfig.startT, animationConfig.endT, tPrecision, chainEvaluator, networkEvaluator]);
 
     const matrixSamples = useMemo(() => {
         if (!matrixEvaluator) return null;
         const { times } = samplingConfig;
         if (times.length === 0) return [];
-        return times.map(time => matrixEvaluator.getMatrixAt(time, { linearEigenInterpolation }));
-    }, [matrixEvaluator, samplingConfig, linearEigenInterpolation]);
+        return times.map(time => matrixEvaluator.getMatrixAt(time, transformOptions));
+    }, [matrixEvaluator, samplingConfig, transformOptions]);
+
+    // Size of the imaginary part thrown away when A^t is forced real, over the sampled t-range.
+    const imaginaryResidual = useMemo(() => {
+        if (!matrixEvaluator || effectiveEvaluationMode !== 'power') return null;
+        let max = 0;
+        let maxAt: number | null = null;
+        for (const time of samplingConfig.times) {
+            const residual = matrixEvaluator.getImaginaryResidual(time, transformOptions);
+            if (residual !== null && residual > max) {
+                max = residual;
+                maxAt = time;
+            }
+        }
+        return max > IMAGINARY_RESIDUAL_TOLERANCE ? { max, maxAt } : null;
+    }, [matrixEvaluator, effectiveEvaluationMode, samplingConfig, transformOptions]);
 
     // --- Memoized Calculations ---
 
+    const iterationOrbits = useMemo(() => {
+        if (!iterating || !matrixPreparation.matrix || activation.error) return null;
+        const orbits: Record<number, IterationOrbit> = {};
+        for (const vector of vectors) {
+            orbits[vector.id] = iterateMap(matrixPreparation.matrix, iterationBias, activation.currentFn, vector.value, iterationSteps);
+        }
+        return orbits;
+    }, [iterating, matrixPreparation.matrix, activation.currentFn, activation.error, vectors, iterationBias, iterationSteps]);
+
+    // Right-hand side x' = F(x) of the neural ODE or of the typed vector field.
+    const odeSystem = useMemo<VectorField | null>(() => {
+        if (fieldMode) return fieldSystem.field;
+        if (!integrating || !matrixPreparation.matrix || activation.error) return null;
+        const A = matrixPreparation.matrix;
+        const activationFn = activation.currentFn;
+        return odeField === 'leaky'
+            ? (x: Vector) => activationFn(multiplyMatrixVector(A, x)).map((value, i) => value - x[i])
+            : (x: Vector) => activationFn(multiplyMatrixVector(A, x));
+    }, [fieldMode, fieldSystem.field, integrating, matrixPreparation.matrix, activation.currentFn, activation.error, odeField]);
+
+    // Velocity behind the motion: the ODE right-hand side, or G·x with G = A for the flow and log A for powers.
+    const overlayField = useMemo<VectorField | null>(() => {
+        if (!fieldOverlay.enabled) return null;
+        if (odeSystem) return odeSystem;
+        if (!interpolating || pathMode !== 'identity' || affineActive || !matrixPreparation.matrix) return null;
+        const generator = evaluationMode === 'flow'
+            ? matrixPreparation.matrix
+            : evaluationMode === 'power'
+                ? matrixLogarithm(matrixPreparation.matrix)
+                : null;
+        return generator ? (x: Vector) => multiplyMatrixVector(generator, x) : null;
+    }, [fieldOverlay.enabled, odeSystem, interpolating, pathMode, affineActive, matrixPreparation.matrix, evaluationMode]);
+
+    const fieldOverlayData = useMemo(() => {
+        if (!overlayField) return null;
+        return { ...sampleFieldOverlay(overlayField, projection, dimension, fieldOverlay), scale: fieldOverlay.scale };
+    }, [overlayField, projection, dimension, fieldOverlay]);
+
+    // Trajectories sampled on the same time grid as the matrix paths.
+    const odeTrajectories = useMemo(() => {
+        if (!odeSystem) return null;
+        const field = odeSystem;
+        const trajectories: Record<number, OdeTrajectory> = {};
+        for (const vector of vectors) {
+            trajectories[vector.id] = integrateOde(field, vector.value, samplingConfig.times, {
+                solver: odeSolver,
+                step: odeStep,
+                tolerance: odeTolerance
+            });
+        }
+        return trajectories;
+    }, [odeSystem, vectors, samplingConfig.times, odeSolver, odeStep, odeTolerance]);
+
+    // The t-range is split evenly over the N steps, so x_k is shown from the k-th slice on.
+    const iterationStep = useMemo(() => {
+        const range = animationConfig.endT - animationConfig.startT;
+        if (!iterating || range <= 0) return 0;
+        const progress = THREE.MathUtils.clamp((t - animationConfig.startT) / range, 0, 1);
+        return Math.floor(progress * iterationSteps);
+    }, [iterating, t, animationConfig.startT, animationConfig.endT, iterationSteps]);
+
     const vectorTransformationsResult = useMemo(() => {
-        if (matrixPreparation.error) {
+        // A typed vector field never reads A, so an invalid matrix does not stop it.
+        if (matrixPreparation.error && !fieldMode) {
             return { transformations: null as TransformationsMap | null, error: matrixPreparation.error };
         }
 
-        if (activation.error) {
+        if (activation.error && !networking && !fieldMode) {
             return { transformations: null as TransformationsMap | null, error: `Activation Function Error: ${activation.error}` };
         }
 
-        if (!matrixEvaluator) {
-            return { transformations: null as TransformationsMap | null, error: 'Matrix unavailable.' };
+        if (!matrixEvaluator && interpolating) {
+            const unavailable = pathMode === 'geodesic'
+                ? 'Path A → B unavailable: A must be invertible (log-Euclidean also needs real logarithms of A and B).'
+                : pathMode === 'chain'
+                    ? 'Matrix chain unavailable: every segment needs a defined fractional power.'
+                    : pathMode === 'timeVarying'
+                        ? transitionSystem.error ?? 'Φ(t) unavailable.'
+                        : 'Matrix unavailable.';
+            return { transformations: null as TransformationsMap | null, error: unavailable };
         }
 
         const range = samplingConfig.range;
@@ -814,10 +1935,79 @@ function App() {
             return { transformations: null as TransformationsMap | null, error: "Animation End Time must be greater than Start Time." };
         }
 
+        if (iterating) {
+            if (!iterationOrbits) {
+                return { transformations: null as TransformationsMap | null, error: 'Matrix unavailable.' };
+            }
+            const transformations: TransformationsMap = {};
+            for (const vector of vectors) {
+                const points = iterationOrbits[vector.id].points.map(
+                    point => new THREE.Vector3(...projectVector(point, projection))
+                );
+                transformations[vector.id] = {
+                    initial: points[0].clone(),
+                    final: points[points.length - 1].clone(),
+                    fullPath: cobweb ? cobwebPath(points) : points
+                };
+            }
+            return { transformations, error: null as string | null };
+        }
+
+        if (integrating || fieldMode) {
+            if (!odeTrajectories) {
+                return { transformations: null as TransformationsMap | null, error: fieldSystem.error ?? 'Matrix unavailable.' };
+            }
+            if (Object.values(odeTrajectories).some(trajectory => trajectory.failed)) {
+                return { transformations: null as TransformationsMap | null, error: 'ODE integration failed: the trajectory blows up or the step size collapsed. Shorten the t-range or loosen the tolerance.' };
+            }
+            const transformations: TransformationsMap = {};
+            for (const vector of vectors) {
+                const fullPath = odeTrajectories[vector.id].points.map(point => new THREE.Vector3(...projectVector(point, projection)));
+                transformations[vector.id] = {
+                    initial: fullPath[0].clone(),
+                    final: fullPath[fullPath.length - 1].clone(),
+                    fullPath
+                };
+            }
+            return { transformations, error: null as string | null };
+        }
+
+        if (networking) {
+            if (!networkEvaluator) {
+                return { transformations: null as TransformationsMap | null, error: networkResult.error ?? 'Network unavailable.' };
+            }
+            const transformations: TransformationsMap = {};
+            for (const vector of vectors) {
+                const points = samplingConfig.times.map(time => networkEvaluator.applyToVector(time, vector.value, transformOptions));
+                if (points.some(point => !point)) {
+                    return { transformations: null as TransformationsMap | null, error: 'Network path unavailable: a layer matrix has no real power Wˢ. Pick another branch policy or evaluation mode.' };
+                }
+                const fullPath = (points as Vector[]).map(point => new THREE.Vector3(...projectVector(point, projection)));
+                transformations[vector.id] = {
+                    initial: fullPath[0].clone(),
+                    final: fullPath[fullPath.length - 1].clone(),
+                    fullPath
+                };
+            }
+            return { transformations, error: null as string | null };
+        }
+
         if (!matrixSamples) {
             return { transformations: null as TransformationsMap | null, error: 'Matrix generation failed.' };
         }
 
+        if (matrixSamples.some(sample => !sample) && effectiveEvaluationMode === 'power' && branchPolicy === 'realLog' && matrixEvaluator && !matrixEvaluator.hasRealLogarithm) {
+            return { transformations: null as TransformationsMap | null, error: 'A negative eigenvalue has no equal partner, so there is no real logarithm and A^t is not real. Pick another branch policy.' };
+        }
+
+        if (matrixSamples.some(sample => !sample) && branchPolicy === 'refuse' && imaginaryResidual) {
+            return { transformations: null as TransformationsMap | null, error: 'A^t is not real on this t-range (negative eigenvalue). Pick another branch policy.' };
+        }
+
+        if (matrixSamples.some(sample => !sample) && effectiveEvaluationMode === 'polar') {
+            return { transformations: null as TransformationsMap | null, error: 'Polar interpolation needs an invertible matrix: A = R·S is not unique when det A = 0.' };
+        }
+
         if (matrixSamples.some(sample => !sample)) {
             return { transformations: null as TransformationsMap | null, error: 'Matrix generation failed at specific time samples.' };
         }
@@ -834,30 +2024,37 @@ function App() {
                     calculationError = true;
                     break;
                 }
-                const rawPoint = multiplyMatrixVector(sample, vector.value);
-                const activatedPoint = rawPoint.map(activationFn) as Vector3;
-                fullPath.push(new THREE.Vector3(...activatedPoint));
+                const rawPoint = applyMatrix(sample, vector.value);
+                const activatedPoint = activationFn(rawPoint);
+                fullPath.push(new THREE.Vector3(...projectVector(activatedPoint, projection)));
             }
             if (calculationError || fullPath.length === 0) {
                 calculationError = true;
                 break;
             }
 
-            const initial = fullPath[0]?.clone() ?? new THREE.Vector3(...vector.value.map(activationFn) as Vector3);
+            const initial = fullPath[0]?.clone() ?? new THREE.Vector3(...projectVector(activationFn(vector.value), projection));
             const final = fullPath[fullPath.length - 1]?.clone() ?? initial.clone();
 
             transformations[vector.id] = { initial, final, fullPath };
         }
         
         if (calculationError) {
-            return { transformations: null as TransformationsMap | null, error: "Calculation Error: The matrix might be singular or non-diagonalizable." };
+            return { transformations: null as TransformationsMap | null, error: "Calculation Error: A^t is undefined for this matrix (it might be singular)." };
         }
 
         return { transformations, error: null as string | null };
-    }, [matrixPreparation, vectors, activation.currentFn, activation.error, matrixEvaluator, matrixSamples, samplingConfig.range]);
+    }, [matrixPreparation, vectors, activation.currentFn, activation.error, matrixEvaluator, matrixSamples, samplingConfig.range, branchPolicy, imaginaryResidual, pathMode, transitionSystem.error, effectiveEvaluationMode, projection, interpolating, iterating, iterationOrbits, cobweb, networking, networkEvaluator, networkResult.error, samplingConfig.times, transformOptions, integrating, fieldMode, fieldSystem.error, odeTrajectories, applyMatrix]);
     const vectorTransformations = vectorTransformationsResult.transformations;
 
 
+    const planar = dimension === 2;
+    // The planar view has no z-axis, so z walls are kept in the profile but ignored while in 2D.
+    const activeWalls = useMemo(
+        () => (planar ? walls.filter(wall => wall.axis !== 'z') : walls),
+        [planar, walls]
+    );
+
     const sceneData = useMemo(() => {
         if (!vectorTransformations) return [];
         const range = animationConfig.endT - animationConfig.startT;
@@ -928,6 +2125,8 @@ function App() {
         };
         
         const direction = isReversing ? -1 : 1;
+        // Cobweb paths hold two corner points between consecutive orbit points.
+        const orbitStride = iterating && cobweb ? 3 : 1;
 
         if (dynamicFadingPath && fadingPath) {
             const visibleIds = new Set(vectors.filter(v => v.visible).map(v => v.id));
@@ -943,12 +2142,12 @@ function App() {
             .filter(v => v.visible)
             .map(vector => {
                 const transform = vectorTransformations[vector.id];
-                const progress = (t - animationConfig.startT) / range;
-                const sliceEnd = Math.floor(progress * (transform.fullPath.length - 1));
+                const sliceEnd = iterating ? iterationStep * orbitStride : sampleIndexAt(samplingConfig.times, t);
                 const clampedIndex = THREE.MathUtils.clamp(sliceEnd, 0, transform.fullPath.length - 1);
                 const maxTrail = Math.min(fadingPathLength, transform.fullPath.length);
 
                 let currentPath: THREE.Vector3[];
+                let visibleRange: [number, number] = [0, clampedIndex];
                 if (dynamicFadingPath && fadingPath) {
                     const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
                     const maxSamples = Math.max(2, Math.min(maxTrail, Math.round(Math.max(2, fadingPathLength))));
@@ -1007,12 +2206,15 @@ function App() {
                     dynamicTrailPointsRef.current.set(vector.id, samples);
 
                     currentPath = samples.map(sample => sample.position.clone());
+                    const sampleIndices = samples.map(sample => sample.index);
+                    visibleRange = [Math.min(...sampleIndices), Math.max(...sampleIndices)];
                 } else {
                     previousSampleIndexRef.current.set(vector.id, clampedIndex);
                     dynamicTrailPointsRef.current.delete(vector.id);
                     if (fadingPath) {
                         const start = Math.max(0, clampedIndex - maxTrail + 1);
                         currentPath = transform.fullPath.slice(start, clampedIndex + 1);
+                        visibleRange = [start, clampedIndex];
                     } else {
                         currentPath = transform.fullPath.slice(0, clampedIndex + 1);
                     }
@@ -1021,7 +2223,7 @@ function App() {
                 const previousVector = currentPath.length > 1 ? currentPath[currentPath.length - 2] : transform.initial;
 
                 const contacts: WallContact[] = [];
-                walls.forEach(wall => {
+                activeWalls.forEach(wall => {
                     const contact = computeContact(wall, interpolatedVector, previousVector);
                     if (contact) {
                         contacts.push(contact);
@@ -1035,10 +2237,16 @@ function App() {
                     finalVector: transform.final,
                     interpolatedVector: interpolatedVector,
                     path: currentPath,
+                    segmentBoundaries: (iterating
+                        ? transform.fullPath.map((_, index) => index).filter(index => index > 0 && index % orbitStride === 0)
+                        : samplingConfig.boundaryIndices)
+                        .filter(index => index >= visibleRange[0] && index <= visibleRange[1])
+                        .map(index => transform.fullPath[index])
+                        .filter((point): point is THREE.Vector3 => Boolean(point)),
                     contacts,
                 };
             });
-    }, [t, vectors, vectorTransformations, animationConfig.startT, animationConfig.endT, walls, fadingPath, dynamicFadingPath, fadingPathLength]);
+    }, [t, vectors, vectorTransformations, animationConfig.startT, animationConfig.endT, activeWalls, fadingPath, dynamicFadingPath, fadingPathLength, samplingConfig, iterating, iterationStep, cobweb]);
 
     const wallContactCounts = useMemo(() => {
         const counts: Record<number, number> = {};
@@ -1051,14 +2259,85 @@ function App() {
     }, [sceneData]);
 
     const effectiveEigenvalues = useMemo<Eigenvalue[] | null>(() => {
+        if ((iterating || integrating) && matrixPreparation.matrix) {
+            // No evaluator in these modes, but the spectrum of A still governs the linear part of the dynamics.
+            try {
+                return mapEigenvalues(math.eigs(matrixPreparation.matrix, { eigenvectors: false }).values as (number | math.Complex)[]);
+            } catch {
+                return null;
+            }
+        }
         if (!matrixEvaluator) return null;
         return mapEigenvalues(matrixEvaluator.eigenValues);
-    }, [matrixEvaluator]);
+    }, [matrixEvaluator, iterating, integrating, matrixPreparation.matrix]);
+
+    // Only the I → A path, iteration and the neural ODE are driven by the effective A itself.
+    const stability = useMemo(() => {
+        const classifiesA = iterating || integrating || (interpolating && pathMode === 'identity' && !affineActive);
+        if (!classifiesA || !matrixPreparation.matrix) return null;
+        return classifyLinearSystem(matrixPreparation.matrix);
+    }, [iterating, integrating, interpolating, pathMode, affineActive, matrixPreparation.matrix]);
 
     const matrixAt = useMemo(() => {
         if (!matrixEvaluator) return null;
-        return matrixEvaluator.getMatrixAt(t, { linearEigenInterpolation });
-    }, [matrixEvaluator, t, linearEigenInterpolation]);
+        return matrixEvaluator.getMatrixAt(t, transformOptions);
+    }, [matrixEvaluator, t, transformOptions]);
+
+    // Shapes and point clouds follow the same A(t)·x and activation as the vectors; other dynamics have no single matrix to apply.
+    const pointTransform = useMemo(() => {
+        if (!matrixAt || vectorTransformationsResult.error) return null;
+        const activationFn = activation.currentFn;
+        return (vertex: Vector): Vector3 => projectVector(activationFn(applyMatrix(matrixAt, vertex)), projection);
+    }, [matrixAt, vectorTransformationsResult.error, activation.currentFn, projection, applyMatrix]);
+
+    const shapeGeometries = useMemo(
+        () => shapes
+            .filter(shape => shape.visible)
+            .map(shape => ({ id: shape.id, color: shape.color, geometry: buildShapeGeometry(shape, dimension) })),
+        [shapes, dimension]
+    );
+
+    const frameGrid = useMemo(
+        () => (coordinateFrame.enabled ? coordinateGrid(dimension, coordinateFrame.extent, coordinateFrame.density) : null),
+        [coordinateFrame, dimension]
+    );
+
+    // Basis images go through the same activation as the grid, drawn from the image of the origin.
+    const coordinateFrameData = useMemo(() => {
+        if (!frameGrid || !pointTransform) return null;
+        const origin = new THREE.Vector3(...pointTransform(new Array(dimension).fill(0)));
+        const wrap = activation.name === 'identity' ? (text: string) => text : (text: string) => `f(${text})`;
+        const basis = Array.from({ length: Math.min(dimension, 3) }, (_, j) => {
+            const unit = Array.from({ length: dimension }, (__, i) => (i === j ? 1 : 0));
+            return {
+                origin,
+                direction: new THREE.Vector3(...pointTransform(unit)).sub(origin),
+                label: wrap(`Aᵗe${'₁₂₃'[j]}`),
+                color: FRAME_COLORS[j]
+            };
+        });
+        return { grid: frameGrid, transform: pointTransform, basis };
+    }, [frameGrid, pointTransform, dimension, activation.name]);
+
+    const cloudPoints = pointCloud?.points;
+    const pointCloudRest = useMemo(
+        () => (cloudPoints ? cloudPoints.map(point => resizeVector(point, dimension)) : null),
+        [cloudPoints, dimension]
+    );
+
+    const pointCloudData = useMemo(() => {
+        if (!pointCloud || !pointCloud.visible || !pointCloudRest) return null;
+        return { points: pointCloudRest, colors: pointCloudColors(pointCloud), size: pointCloud.pointSize };
+    }, [pointCloud, pointCloudRest]);
+
+    const timeVaryingMatrix = useMemo(() => {
+        if (!transitionSystem.matrixFn) return null;
+        try {
+            return transitionSystem.matrixFn(t);
+        } catch {
+            return null;
+        }
+    }, [transitionSystem.matrixFn, t]);
 
     const matrixAtDeterminant = useMemo(() => {
         if (!matrixAt) return null;
@@ -1077,25 +2356,167 @@ function App() {
         }
     }, [matrixAt]);
 
+    // Image of the unit cube: the parallelepiped on the columns of A(t), placed at the image of the origin.
+    const determinantVolume = useMemo(() => {
+        if (!showDeterminantVolume || !matrixAt || vectorTransformationsResult.error) return null;
+        const toScene = (v: Vector) => new THREE.Vector3(...projectVector(v, projection));
+        const basis = [0, 1, 2].map(j => Array.from({ length: dimension }, (_, i) => (i === j ? 1 : 0)));
+        const originImage = applyMatrix(matrixAt, new Array(dimension).fill(0));
+        const origin = toScene(originImage);
+        const edges = basis.map((unit, j) => (j < dimension
+            ? toScene(applyMatrix(matrixAt, unit).map((value, i) => value - originImage[i]))
+            : new THREE.Vector3()));
+        const unitEdges = basis.map((unit, j) => (j < dimension ? toScene(unit) : new THREE.Vector3()));
+        return {
+            origin,
+            edges: edges as [THREE.Vector3, THREE.Vector3, THREE.Vector3],
+            unitEdges: unitEdges as [THREE.Vector3, THREE.Vector3, THREE.Vector3],
+            determinant: matrixAtDeterminant,
+            label: dimension === 2 ? 'area' : dimension === 3 ? 'vol' : 'det'
+        };
+    }, [showDeterminantVolume, matrixAt, vectorTransformationsResult.error, projection, dimension, matrixAtDeterminant, applyMatrix]);
+
+    // SVD of the linear part; an affine A(t) is homogeneous, with the translation in its last column.
+    const svdAtT = useMemo(() => {
+        if (!matrixAt || vectorTransformationsResult.error) return null;
+        const linear = affineActive
+            ? matrixAt.slice(0, dimension).map(row => row.slice(0, dimension))
+            : matrixAt;
+        return singularValueDecomposition(linear);
+    }, [matrixAt, vectorTransformationsResult.error, dimension, affineActive]);
+
+    // Image of the unit sphere; beyond 3D it spans the three largest semi-axes.
+    const singularEllipsoid = useMemo(() => {
+        if (!showSingularEllipsoid || !svdAtT || !matrixAt) return null;
+        const toScene = (v: Vector) => new THREE.Vector3(...projectVector(v, projection));
+        const axes = [0, 1, 2].map(i => (svdAtT.semiAxes[i] ? toScene(svdAtT.semiAxes[i]) : new THREE.Vector3()));
+        return {
+            center: toScene(applyMatrix(matrixAt, new Array(dimension).fill(0))),
+            axes: axes as [THREE.Vector3, THREE.Vector3, THREE.Vector3]
+        };
+    }, [showSingularEllipsoid, svdAtT, matrixAt, projection, dimension, applyMatrix]);
+
     const matrixAtEigenvalues = useMemo<Eigenvalue[] | null>(() => {
         if (!matrixEvaluator) return null;
-        const eigenValuesAtT = matrixEvaluator.eigenValues.map(value =>
-            interpolateEigenvalue(value, t, { linearEigenInterpolation })
-        );
-        return mapEigenvalues(eigenValuesAtT);
-    }, [matrixEvaluator, t, linearEigenInterpolation]);
+        return mapEigenvalues(matrixEvaluator.getEigenvaluesAt(t, transformOptions));
+    }, [matrixEvaluator, t, transformOptions]);
 
     const firstVisibleVector = vectors.find(v => v.visible);
-    const firstVisibleSceneData = firstVisibleVector ? sceneData.find(d => d.id === firstVisibleVector.id) : null;
 
     const rawTransformedV = useMemo(() => {
         if (!firstVisibleVector || !matrixEvaluator) return null;
         return matrixEvaluator.applyToVector(
             t,
             firstVisibleVector.value,
-            { linearEigenInterpolation }
+            transformOptions
         );
-    }, [matrixEvaluator, t, firstVisibleVector, linearEigenInterpolation]);
+    }, [matrixEvaluator, t, firstVisibleVector, transformOptions]);
+
+    const iterationInfo = useMemo(() => {
+        if (!iterationOrbits || !firstVisibleVector || vectorTransformationsResult.error) return null;
+        const orbit = iterationOrbits[firstVisibleVector.id];
+        const step = Math.min(iterationStep, orbit.points.length - 1);
+        return {
+            step,
+            steps: iterationSteps,
+            point: orbit.points[step],
+            diverged: orbit.diverged,
+            cycle: orbit.diverged ? null : detectCycle(orbit.points),
+            // Without an activation the fixed point is known in closed form, whether or not the orbit reaches it.
+            fixedPoint: activation.name === 'identity' && matrixPreparation.matrix
+                ? linearFixedPoint(matrixPreparation.matrix, iterationBias)
+                : null
+        };
+    }, [iterationOrbits, firstVisibleVector, vectorTransformationsResult.error, iterationStep, iterationSteps, activation.name, matrixPreparation.matrix, iterationBias]);
+
+    const networkInfo = useMemo(() => {
+        if (!networkEvaluator || !firstVisibleVector || vectorTransformationsResult.error) return null;
+        return { ...networkEvaluator.layerAt(t), layers: networkEvaluator.forward(firstVisibleVector.value) };
+    }, [networkEvaluator, firstVisibleVector, vectorTransformationsResult.error, t]);
+
+    const odeInfo = useMemo(() => {
+        if (!odeTrajectories || !firstVisibleVector || vectorTransformationsResult.error) return null;
+        const trajectory = odeTrajectories[firstVisibleVector.id];
+        const index = THREE.MathUtils.clamp(sampleIndexAt(samplingConfig.times, t), 0, trajectory.points.length - 1);
+        // Interval i runs from sample i to i + 1, so the one ending at the current sample is reported.
+        const interval = Math.max(0, index - 1);
+        const point = trajectory.points[index];
+        const jacobian = odeSystem ? numericalJacobian(odeSystem, point) : null;
+        let eigenvalues: Eigenvalue[] | null = null;
+        if (jacobian) {
+            try {
+                eigenvalues = mapEigenvalues(math.eigs(jacobian, { eigenvectors: false }).values as (number | math.Complex)[]);
+            } catch {
+                eigenvalues = null;
+            }
+        }
+        return {
+            field: fieldMode ? null : odeField,
+            solver: odeSolver,
+            point,
+            jacobian,
+            jacobianEigenvalues: eigenvalues,
+            stepSize: trajectory.stepSizes[interval] ?? null,
+            errorEstimate: trajectory.errors[interval] ?? null,
+            maxError: trajectory.errors.length > 0 ? Math.max(...trajectory.errors) : null
+        };
+    }, [odeTrajectories, odeSystem, fieldMode, firstVisibleVector, vectorTransformationsResult.error, samplingConfig.times, t, odeField, odeSolver]);
+
+    // Where the affine map sends the origin: start, now, and at the end of the t-range.
+    const originMarkers = useMemo(() => {
+        if (!affineActive || !matrixEvaluator || vectorTransformationsResult.error) return null;
+        const origin = new Array(dimension).fill(0);
+        const toScene = (point: Vector | null) =>
+            point ? new THREE.Vector3(...projectVector(point, projection)) : null;
+        return {
+            initial: toScene(matrixEvaluator.applyToVector(animationConfig.startT, origin, transformOptions)),
+            current: toScene(matrixEvaluator.applyToVector(t, origin, transformOptions)),
+            final: toScene(matrixEvaluator.applyToVector(animationConfig.endT, origin, transformOptions)),
+        };
+    }, [affineActive, matrixEvaluator, vectorTransformationsResult.error, dimension, projection, animationConfig.startT, animationConfig.endT, t, transformOptions]);
+
+    // Invariant directions of the matrix whose powers drive the motion; iteration and neural ODEs use the linear part A.
+    // The A → B path is no power of a fixed matrix, so it shows the eigenvectors of A(t) itself.
+    const eigenOverlay = useMemo(() => {
+        if (!showEigenvectors || vectorTransformationsResult.error) return null;
+        const pairs = interpolating && pathMode === 'geodesic'
+            ? (matrixAt ? eigenPairsOf(matrixAt) : [])
+            : matrixEvaluator
+                ? matrixEvaluator.eigenvectors
+                : (iterating || integrating) && matrixPreparation.matrix
+                    ? eigenPairsOf(matrixPreparation.matrix)
+                    : [];
+        const { lines, planes } = invariantSubspaces(pairs);
+        const toScene = (v: Vector) => new THREE.Vector3(...projectVector(v, projection));
+        return {
+            lines: lines.flatMap(line => {
+                const direction = toScene(line.direction);
+                return direction.lengthSq() > 1e-12
+                    ? [{ direction: direction.normalize(), label: `λ = ${line.value.toFixed(2)}` }]
+                    : [];
+            }),
+            // Orthonormalize the projected span so the disk lies flat in it.
+            planes: planes.flatMap(plane => {
+                const u = toScene(plane.basis[0]);
+                const w = toScene(plane.basis[1]);
+                if (u.lengthSq() < 1e-12) return [];
+                u.normalize();
+                w.addScaledVector(u, -w.dot(u));
+                if (w.lengthSq() < 1e-12) return [];
+                w.normalize();
+                const basis = new THREE.Matrix4().makeBasis(u, w, new THREE.Vector3().crossVectors(u, w));
+                return [{
+                    quaternion: new THREE.Quaternion().setFromRotationMatrix(basis),
+                    label: `λ = ${plane.value.re.toFixed(2)} ± ${plane.value.im.toFixed(2)}i`
+                }];
+            })
+        };
+    }, [showEigenvectors, vectorTransformationsResult.error, interpolating, pathMode, matrixAt, matrixEvaluator, iterating, integrating, matrixPreparation.matrix, projection]);
+
+    const transformedV = useMemo(() => {
+        if (!rawTransformedV || vectorTransformationsResult.error) return null;
+        return activation.currentFn(rawTransformedV);
+    }, [rawTransformedV, activation.currentFn, vectorTransformationsResult.error]);
 
     useEffect(() => {
         if (vectorTransformationsResult.error) {
@@ -1111,6 +2532,57 @@ function App() {
     return (
         <div className="w-screen h-screen flex flex-col md:flex-row bg-gray-900 overflow-hidden">
             <ControlsPanel
+                dimension={dimension}
+                projection={projection}
+                onDimensionChange={handleDimensionChange}
+                onProjectionChange={setProjection}
+                affine={affine}
+                translation={translation}
+                onAffineToggle={setAffine}
+                onTranslationChange={setTranslation}
+                dynamicsMode={dynamicsMode}
+                iterationSteps={iterationSteps}
+                iterationBias={iterationBias}
+                cobweb={cobweb}
+                onDynamicsModeChange={setDynamicsMode}
+                onIterationStepsChange={handleIterationStepsChange}
+                onIterationBiasChange={setIterationBias}
+                onCobwebToggle={setCobweb}
+                networkLayers={networkLayers}
+                onAddNetworkLayer={handleAddNetworkLayer}
+                onUpdateNetworkLayer={handleUpdateNetworkLayer}
+                onRemoveNetworkLayer={handleRemoveNetworkLayer}
+                onMoveNetworkLayer={handleMoveNetworkLayer}
+                odeField={odeField}
+                odeSolver={odeSolver}
+                odeStep={odeStep}
+                odeTolerance={odeTolerance}
+                odeTolerances={ODE_TOLERANCES}
+                onOdeFieldChange={setOdeField}
+                onOdeSolverChange={setOdeSolver}
+                onOdeStepChange={handleOdeStepChange}
+                onOdeToleranceChange={setOdeTolerance}
+                fieldExpressions={fieldExpressions}
+                fieldParams={fieldParams}
+                fieldPresetName={fieldPresetName}
+                onFieldExpressionsChange={handleFieldExpressionsChange}
+                onFieldParamsChange={setFieldParams}
+                onFieldPresetSelect={handleFieldPresetSelect}
+                fieldError={fieldSystem.error}
+                parametricMatrix={parametricMatrix}
+                parametricError={parametricResult.error}
+                matrixParamValues={matrixParamValues}
+                onParametricToggle={handleParametricToggle}
+                onMatrixExpressionsChange={handleMatrixExpressionsChange}
+                onMatrixParamsChange={handleMatrixParamsChange}
+                onParametricPresetSelect={handleParametricPresetSelect}
+                timeVaryingExpressions={timeVaryingExpressions}
+                transitionIntegrator={transitionIntegrator}
+                transitionStep={transitionStep}
+                transitionError={transitionSystem.error}
+                onTimeVaryingExpressionsChange={setTimeVaryingExpressions}
+                onTransitionIntegratorChange={setTransitionIntegrator}
+                onTransitionStepChange={handleTransitionStepChange}
                 matrix={matrixA}
                 vectors={vectors}
                 walls={walls}
@@ -1131,14 +2603,33 @@ function App() {
                 matrixScalar={matrixScalar}
                 matrixExponent={matrixExponent}
                 normalizeMatrix={normalizeMatrix}
-                linearEigenInterpolation={linearEigenInterpolation}
+                evaluationMode={effectiveEvaluationMode}
+                branchPolicy={branchPolicy}
+                branchIndex={branchIndex}
+                hasNegativeEigenvalues={matrixEvaluator?.hasNegativeEigenvalues ?? false}
                 normalizationWarning={normalizationWarning}
                 onMatrixChange={handleMatrixChange}
                 onPresetSelect={handlePresetSelect}
                 onMatrixScalarChange={handleMatrixScalarChange}
                 onMatrixExponentChange={handleMatrixExponentChange}
                 onNormalizeToggle={handleNormalizeToggle}
-                onLinearInterpolationToggle={handleLinearInterpolationToggle}
+                onEvaluationModeChange={handleEvaluationModeChange}
+                onBranchPolicyChange={setBranchPolicy}
+                onBranchIndexChange={handleBranchIndexChange}
+                pathMode={pathMode}
+                matrixB={matrixB}
+                selectedPresetNameB={selectedPresetNameB}
+                geodesicBlend={geodesicBlend}
+                onPathModeChange={setPathMode}
+                onMatrixBChange={handleMatrixBChange}
+                onPresetBSelect={handlePresetBSelect}
+                onGeodesicBlendChange={setGeodesicBlend}
+                chainSegments={chainSegments}
+                chainDuration={chainEvaluator ? chainEvaluator.boundaries[chainEvaluator.boundaries.length - 1] : null}
+                onAddChainSegment={handleAddChainSegment}
+                onUpdateChainSegment={handleUpdateChainSegment}
+                onRemoveChainSegment={handleRemoveChainSegment}
+                onMoveChainSegment={handleMoveChainSegment}
                 onVectorChange={handleVectorChange}
                 onVectorColorChange={handleVectorColorChange}
                 onAddVector={handleAddVector}
@@ -1154,14 +2645,35 @@ function App() {
                 onDynamicFadingPathChange={setDynamicFadingPath}
                 onShowStartMarkersChange={setShowStartMarkers}
                 onShowEndMarkersChange={setShowEndMarkers}
+                showEigenvectors={showEigenvectors}
+                fieldOverlay={fieldOverlay}
+                fieldOverlayAvailable={!fieldOverlay.enabled || overlayField !== null}
+                onFieldOverlayChange={handleFieldOverlayChange}
+                coordinateFrame={coordinateFrame}
+                onCoordinateFrameChange={handleCoordinateFrameChange}
+                onShowEigenvectorsChange={setShowEigenvectors}
+                showDeterminantVolume={showDeterminantVolume}
+                onShowDeterminantVolumeChange={setShowDeterminantVolume}
+                showSingularEllipsoid={showSingularEllipsoid}
+                onShowSingularEllipsoidChange={setShowSingularEllipsoid}
                 onResetTime={resetTime}
                 onPlayPause={handlePlayPause}
                 onAnimationConfigChange={setAnimationConfig}
                 onRepeatToggle={handleRepeatToggle}
-                onActivationConfigChange={setActivation}
+                onActivationConfigChange={handleActivationConfigChange}
                 onAddWall={handleAddWall}
                 onUpdateWall={handleUpdateWall}
                 onRemoveWall={handleRemoveWall}
+                shapes={shapes}
+                followsMatrixPath={pointTransform !== null}
+                onAddShape={handleAddShape}
+                onImportShapeMesh={handleImportShapeMesh}
+                onUpdateShape={handleUpdateShape}
+                onRemoveShape={handleRemoveShape}
+                pointCloud={pointCloud}
+                onImportPointCloud={handleImportPointCloud}
+                onPointCloudChange={handlePointCloudChange}
+                onRemovePointCloud={handleRemovePointCloud}
                 profileSummaries={profileSummaries}
                 activeProfileName={activeProfileName}
                 onProfileSave={handleProfileSave}
@@ -1173,7 +2685,17 @@ function App() {
                  <div className="absolute inset-0 pointer-events-auto">
                     <Scene
                         sceneData={sceneData}
-                        walls={walls}
+                        walls={activeWalls}
+                        planar={planar}
+                        originMarkers={originMarkers}
+                        eigenOverlay={eigenOverlay}
+                        fieldOverlay={fieldOverlayData}
+                        shapes={pointTransform ? shapeGeometries : []}
+                        pointTransform={pointTransform}
+                        pointCloud={pointCloudData}
+                        determinantVolume={determinantVolume}
+                        singularEllipsoid={singularEllipsoid}
+                        coordinateFrame={coordinateFrameData}
                         dotMode={dotMode}
                         fadingPath={fadingPath}
                         fadingPathLength={fadingPathLength}
@@ -1193,17 +2715,34 @@ function App() {
                     determinantBefore={matrixPreparation.determinantBefore}
                     determinantAfter={matrixPreparation.determinantAfter}
                     normalizationWarning={normalizationWarning}
-                    walls={walls}
+                    walls={activeWalls}
                     wallContactCounts={wallContactCounts}
                     eigenvalues={effectiveEigenvalues}
                     eigenvaluesAtT={matrixAtEigenvalues}
                     matrixAt={matrixAt}
+                    evaluationMethod={matrixEvaluator?.getMethod({ mode: effectiveEvaluationMode }) ?? null}
+                    evaluationMode={effectiveEvaluationMode}
+                    branchPolicy={branchPolicy}
+                    pathMode={interpolating ? pathMode : 'identity'}
+                    geodesicBlend={geodesicBlend}
+                    targetMatrix={matrixB}
+                    translation={affineActive ? translation : null}
+                    iteration={iterationInfo}
+                    network={networkInfo}
+                    ode={odeInfo}
+                    timeVaryingMatrix={timeVaryingMatrix}
+                    stability={stability}
+                    chainPosition={chainEvaluator ? { ...chainEvaluator.segmentAt(t), count: chainSegments.length } : null}
+                    imaginaryResidual={imaginaryResidual}
                     determinantAtT={matrixAtDeterminant}
+                    svdAtT={svdAtT}
                     vectorV={firstVisibleVector?.value || null}
                     rawTransformedV={rawTransformedV}
-                    transformedV={firstVisibleSceneData?.interpolatedVector ? [firstVisibleSceneData.interpolatedVector.x, firstVisibleSceneData.interpolatedVector.y, firstVisibleSceneData.interpolatedVector.z] : null}
+                    transformedV={transformedV}
                     activationFnName={activation.name}
                     customActivationFnStr={activation.customFnStr}
+                    vectorActivationStrs={activation.vectorFnStrs}
+                    activationParams={activation.params}
                  />
             </div>
         </div>
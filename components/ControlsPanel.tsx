@@ -1,9 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import type { Matrix3, Vector3, VectorObject, Wall, FadingPathStyle } from '../types';
-import type { ActivationFunction } from '../utils/activationFunctions';
+import type { Matrix, Vector, VectorObject, Wall, FadingPathStyle, EvaluationMode, BranchPolicy, PathMode, GeodesicBlend, ChainSegment, ProjectionConfig, ProjectionMode, DynamicsMode, NetworkLayer, ActivationParameter, MatrixParameter, ParametricMatrix, OdeField, OdeSolver, TransitionIntegrator, FieldOverlayConfig, CoordinateFrameConfig, WallAxis, ShapeKind, ShapeObject, PointCloud, PointCloudColoring } from '../types';
+import type { VectorActivationFunction } from '../utils/activationFunctions';
 import { easingFunctions } from '../utils/easing';
-import { PRESET_MATRICES } from '../App';
-import { PRESET_ACTIVATION_FUNCTIONS } from '../utils/activationFunctions';
+import { presetsForDimension, parametricPresetsForDimension, VECTOR_FIELD_PRESETS } from '../App';
+import { PRESET_ACTIVATION_FUNCTIONS, PARAMETERIZED_ACTIVATIONS, defaultVectorComponents, vectorComponentName } from '../utils/activationFunctions';
 import type { ProfileSummary, ProfileOperationResult } from '../utils/profileStorage';
 
 interface AnimationConfig {
@@ -15,12 +15,65 @@ interface AnimationConfig {
 interface ActivationConfig {
     name: string;
     customFnStr: string;
-    currentFn: ActivationFunction;
+    vectorFnStrs: string[];
+    params: ActivationParameter[];
+    currentFn: VectorActivationFunction;
     error: string | null;
 }
 
 interface ControlsPanelProps {
-    matrix: Matrix3;
+    dimension: number;
+    projection: ProjectionConfig;
+    onDimensionChange: (dimension: number) => void;
+    onProjectionChange: (projection: ProjectionConfig) => void;
+    affine: boolean;
+    translation: Vector;
+    onAffineToggle: (enabled: boolean) => void;
+    onTranslationChange: (translation: Vector) => void;
+    dynamicsMode: DynamicsMode;
+    iterationSteps: number;
+    iterationBias: Vector;
+    cobweb: boolean;
+    onDynamicsModeChange: (mode: DynamicsMode) => void;
+    onIterationStepsChange: (steps: number) => void;
+    onIterationBiasChange: (bias: Vector) => void;
+    onCobwebToggle: (enabled: boolean) => void;
+    networkLayers: NetworkLayer[];
+    onAddNetworkLayer: () => void;
+    onUpdateNetworkLayer: (id: number, updates: Partial<Omit<NetworkLayer, 'id'>>) => void;
+    onRemoveNetworkLayer: (id: number) => void;
+    onMoveNetworkLayer: (id: number, offset: -1 | 1) => void;
+    odeField: OdeField;
+    odeSolver: OdeSolver;
+    odeStep: number;
+    odeTolerance: number;
+    odeTolerances: number[];
+    onOdeFieldChange: (field: OdeField) => void;
+    onOdeSolverChange: (solver: OdeSolver) => void;
+    onOdeStepChange: (step: number) => void;
+    onOdeToleranceChange: (tolerance: number) => void;
+    fieldExpressions: string[];
+    fieldParams: ActivationParameter[];
+    fieldPresetName: string;
+    fieldError: string | null;
+    onFieldExpressionsChange: (expressions: string[]) => void;
+    onFieldParamsChange: (params: ActivationParameter[]) => void;
+    onFieldPresetSelect: (name: string) => void;
+    parametricMatrix: ParametricMatrix;
+    parametricError: string | null;
+    matrixParamValues: Record<string, number>;
+    onParametricToggle: (enabled: boolean) => void;
+    onMatrixExpressionsChange: (expressions: string[][]) => void;
+    onMatrixParamsChange: (params: MatrixParameter[]) => void;
+    onParametricPresetSelect: (name: string) => void;
+    timeVaryingExpressions: string[][];
+    transitionIntegrator: TransitionIntegrator;
+    transitionStep: number;
+    transitionError: string | null;
+    onTimeVaryingExpressionsChange: (expressions: string[][]) => void;
+    onTransitionIntegratorChange: (integrator: TransitionIntegrator) => void;
+    onTransitionStepChange: (step: number) => void;
+    matrix: Matrix;
     vectors: VectorObject[];
     walls: Wall[];
     t: number;
@@ -31,6 +84,14 @@ interface ControlsPanelProps {
     fadingPathStyle: FadingPathStyle;
     showStartMarkers: boolean;
     showEndMarkers: boolean;
+    showEigenvectors: boolean;
+    showDeterminantVolume: boolean;
+    showSingularEllipsoid: boolean;
+    fieldOverlay: FieldOverlayConfig;
+    /** False when the overlay is on but the current mode has no velocity field to sample. */
+    fieldOverlayAvailable: boolean;
+    coordinateFrame: CoordinateFrameConfig;
+    onCoordinateFrameChange: (config: CoordinateFrameConfig) => void;
     dynamicFadingPath: boolean;
     isPlaying: boolean;
     animationConfig: AnimationConfig;
@@ -40,15 +101,34 @@ interface ControlsPanelProps {
     matrixScalar: number;
     matrixExponent: number;
     normalizeMatrix: boolean;
-    linearEigenInterpolation: boolean;
+    evaluationMode: EvaluationMode;
+    branchPolicy: BranchPolicy;
+    branchIndex: number;
+    hasNegativeEigenvalues: boolean;
     normalizationWarning: string | null;
-    onMatrixChange: (matrix: Matrix3) => void;
+    pathMode: PathMode;
+    matrixB: Matrix;
+    selectedPresetNameB: string;
+    geodesicBlend: GeodesicBlend;
+    onPathModeChange: (mode: PathMode) => void;
+    onMatrixBChange: (matrix: Matrix) => void;
+    onPresetBSelect: (name: string) => void;
+    onGeodesicBlendChange: (blend: GeodesicBlend) => void;
+    chainSegments: ChainSegment[];
+    chainDuration: number | null;
+    onAddChainSegment: () => void;
+    onUpdateChainSegment: (id: number, updates: Partial<Omit<ChainSegment, 'id'>>) => void;
+    onRemoveChainSegment: (id: number) => void;
+    onMoveChainSegment: (id: number, offset: -1 | 1) => void;
+    onMatrixChange: (matrix: Matrix) => void;
     onPresetSelect: (name: string) => void;
     onMatrixScalarChange: (value: number) => void;
     onMatrixExponentChange: (value: number) => void;
     onNormalizeToggle: (enabled: boolean) => void;
-    onLinearInterpolationToggle: (enabled: boolean) => void;
-    onVectorChange: (id: number, value: Vector3) => void;
+    onEvaluationModeChange: (mode: EvaluationMode) => void;
+    onBranchPolicyChange: (policy: BranchPolicy) => void;
+    onBranchIndexChange: (index: number) => void;
+    onVectorChange: (id: number, value: Vector) => void;
     onVectorColorChange: (id: number, color: string) => void;
     onAddVector: () => void;
     onNormalizeVectors: () => void;
@@ -62,6 +142,10 @@ interface ControlsPanelProps {
     onFadingPathStyleChange: (style: FadingPathStyle) => void;
     onShowStartMarkersChange: (enabled: boolean) => void;
     onShowEndMarkersChange: (enabled: boolean) => void;
+    onShowEigenvectorsChange: (enabled: boolean) => void;
+    onShowDeterminantVolumeChange: (enabled: boolean) => void;
+    onShowSingularEllipsoidChange: (enabled: boolean) => void;
+    onFieldOverlayChange: (config: FieldOverlayConfig) => void;
     onDynamicFadingPathChange: (enabled: boolean) => void;
     onResetTime: () => void;
     onPlayPause: () => void;
@@ -71,6 +155,19 @@ interface ControlsPanelProps {
     onAddWall: () => void;
     onUpdateWall: (id: number, updates: Partial<Wall>) => void;
     onRemoveWall: (id: number) => void;
+    shapes: ShapeObject[];
+    /** False when the current dynamics have no A(t) to move shapes and point clouds with. */
+    followsMatrixPath: boolean;
+    onAddShape: (kind: Exclude<ShapeKind, 'mesh'>) => void;
+    /** Returns an error message, or null once the mesh is added. */
+    onImportShapeMesh: (name: string, data: ArrayBuffer) => string | null;
+    onUpdateShape: (id: number, updates: Partial<Pick<ShapeObject, 'visible' | 'color'>>) => void;
+    onRemoveShape: (id: number) => void;
+    pointCloud: PointCloud | null;
+    /** Returns an error message, or null once the cloud is loaded. */
+    onImportPointCloud: (name: string, text: string) => string | null;
+    onPointCloudChange: (updates: Partial<Pick<PointCloud, 'visible' | 'coloring' | 'colormapColumn' | 'color' | 'pointSize'>>) => void;
+    onRemovePointCloud: () => void;
     profileSummaries: ProfileSummary[];
     activeProfileName: string | null;
     onProfileSave: (name: string) => ProfileOperationResult;
@@ -79,6 +176,74 @@ interface ControlsPanelProps {
     error: string | null;
 }
 
+const EVALUATION_MODE_OPTIONS: { value: EvaluationMode; label: string; description: string }[] = [
+    { value: 'power', label: 'Aᵗ', description: 'Fractional matrix power (discrete steps).' },
+    { value: 'linear', label: 'Linear λ', description: 'Eigenvalues blend linearly from 1 to λ.' },
+    { value: 'flow', label: 'eᵗᴬ', description: "Continuous flow of x' = Ax." },
+    { value: 'polar', label: 'Polar R·S', description: 'Split A = R·S: slerp the rotation, blend the stretch. No spirals.' },
+];
+
+const BRANCH_POLICY_OPTIONS: { value: BranchPolicy; label: string; description: string }[] = [
+    { value: 'principal', label: 'Principal (drop Im)', description: 'Keep the real part of λᵗ; the discarded imaginary part is reported.' },
+    { value: 'realLog', label: 'Real logarithm', description: 'Treat repeated negative eigenvalues as a conjugate pair so Aᵗ stays real; an unpaired one has no real logarithm.' },
+    { value: 'refuse', label: 'Refuse', description: 'Stop instead of showing a path that is not a real power of A.' },
+];
+
+const DYNAMICS_MODE_OPTIONS: { value: DynamicsMode; label: string; description: string }[] = [
+    { value: 'interpolate', label: 'Path M(t)·v', description: 'Follow v along a continuous matrix path.' },
+    { value: 'iterate', label: 'Iterate', description: 'Orbit of the recurrent map xₖ₊₁ = f(A·xₖ + b), one step per slice of the t-range.' },
+    { value: 'network', label: 'Network', description: 'Stack of layers x ↦ f(W·x + b); layer k runs Wˢ then f over t ∈ [k-1, k].' },
+    { value: 'neuralOde', label: 'Neural ODE', description: 'Integrate the activation inside the flow, starting from v at the start time.' },
+    { value: 'vectorField', label: 'Field', description: "Integrate a typed system x' = F(x) such as the Lorenz attractor, starting from v at the start time." },
+];
+
+const ODE_FIELD_OPTIONS: { value: OdeField; label: string }[] = [
+    { value: 'activation', label: "x' = f(Ax)" },
+    { value: 'leaky', label: "x' = f(Ax) − x" },
+];
+
+const ODE_SOLVER_OPTIONS: { value: OdeSolver; label: string; description: string }[] = [
+    { value: 'rk4', label: 'RK4', description: 'Fixed steps no longer than h; error estimated by step doubling.' },
+    { value: 'rk45', label: 'RK45', description: 'Adaptive Dormand–Prince steps that keep the local error under the tolerance.' },
+];
+
+// Layers apply their activation per coordinate; vector-valued expressions are only offered globally.
+const LAYER_ACTIVATION_FUNCTIONS = PRESET_ACTIVATION_FUNCTIONS.filter(af => af.value !== 'customVector');
+
+const PATH_MODE_OPTIONS: { value: PathMode; label: string }[] = [
+    { value: 'identity', label: 'I → A' },
+    { value: 'geodesic', label: 'A → B' },
+    { value: 'chain', label: 'Chain' },
+    { value: 'timeVarying', label: 'A(t)' },
+];
+
+const TRANSITION_INTEGRATOR_OPTIONS: { value: TransitionIntegrator; label: string; description: string }[] = [
+    { value: 'rk4', label: 'RK4', description: 'Classic Runge–Kutta on Φ\' = A(t)Φ.' },
+    { value: 'magnus', label: 'Magnus', description: 'Fourth-order Magnus expansion; each step is an exponential, so rotations stay rotations.' },
+];
+
+const GEODESIC_BLEND_OPTIONS: { value: GeodesicBlend; label: string; description: string }[] = [
+    { value: 'relative', label: 'A(A⁻¹B)ᵗ', description: 'Follow the relative transform A⁻¹B from A.' },
+    { value: 'logEuclidean', label: 'Log-Euclidean', description: 'Blend log A and log B linearly, then exponentiate.' },
+];
+
+const PROJECTION_MODE_OPTIONS: { value: ProjectionMode; label: string; description: string }[] = [
+    { value: 'axes', label: 'Pick axes', description: 'Show three of the N coordinates on the scene axes.' },
+    { value: 'matrix', label: '3×N matrix', description: 'Map every point through a custom linear projection.' },
+];
+
+const SCENE_AXES = ['x', 'y', 'z'] as const;
+
+const randomMatrix = (n: number): Matrix => {
+    const randomValue = () => parseFloat((Math.random() * 4 - 2).toFixed(2));
+    return Array.from({ length: n }, () => Array.from({ length: n }, randomValue));
+};
+
+// Tailwind cannot see dynamic grid-cols-N classes, so the column count goes through inline style.
+const gridColumns = (count: number): React.CSSProperties => ({
+    gridTemplateColumns: `repeat(${count}, minmax(0, 1fr))`,
+});
+
 const NumberInput: React.FC<{
     value: number;
     onChange: (value: number) => void;
@@ -102,14 +267,14 @@ const NumberInput: React.FC<{
 
 const VectorControls: React.FC<{
     vector: VectorObject;
-    onVectorChange: (id: number, value: Vector3) => void;
+    onVectorChange: (id: number, value: Vector) => void;
     onVectorColorChange: (id: number, color: string) => void;
     onRemoveVector: (id: number) => void;
     onToggleVisibility: (id: number) => void;
 }> = ({ vector, onVectorChange, onVectorColorChange, onRemoveVector, onToggleVisibility }) => {
     
     const handleValueChange = (index: number, value: number) => {
-        const newVector = [...vector.value] as Vector3;
+        const newVector = [...vector.value];
         newVector[index] = value;
         onVectorChange(vector.id, newVector);
     };
@@ -127,7 +292,7 @@ const VectorControls: React.FC<{
                         aria-label="Change vector color"
                     />
                 </div>
-                <div className="grid grid-cols-3 gap-2 flex-grow">
+                <div className="grid gap-2 flex-grow" style={gridColumns(vector.value.length)}>
                     {vector.value.map((val, i) => (
                         <NumberInput key={i} value={val} onChange={(v) => handleValueChange(i, v)} className="w-full" />
                     ))}
@@ -147,6 +312,211 @@ const VectorControls: React.FC<{
     )
 }
 
+const SHAPE_LABELS: Record<ShapeKind, { planar: string; spatial: string }> = {
+    cube: { planar: 'Unit square', spatial: 'Unit cube' },
+    sphere: { planar: 'Unit disk', spatial: 'Unit sphere' },
+    lattice: { planar: 'Grid', spatial: 'Lattice' },
+    mesh: { planar: 'Mesh', spatial: 'Mesh' }
+};
+
+const ShapeControls: React.FC<{
+    shape: ShapeObject;
+    planar: boolean;
+    onUpdateShape: (id: number, updates: Partial<Pick<ShapeObject, 'visible' | 'color'>>) => void;
+    onRemoveShape: (id: number) => void;
+}> = ({ shape, planar, onUpdateShape, onRemoveShape }) => (
+    <div className="p-3 bg-gray-900/50 rounded-lg">
+        <div className="flex items-center gap-2">
+            <div className="relative w-6 h-6 rounded-md flex-shrink-0">
+                <div className="w-full h-full rounded-md" style={{ backgroundColor: shape.color }} />
+                <input
+                    type="color"
+                    value={shape.color}
+                    onChange={(e) => onUpdateShape(shape.id, { color: e.target.value })}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    aria-label="Change shape color"
+                />
+            </div>
+            <span className="flex-grow text-sm text-gray-200 truncate">
+                {shape.kind === 'mesh' && shape.mesh
+                    ? `${shape.mesh.name} (${shape.mesh.triangles.length / 3} triangles)`
+                    : SHAPE_LABELS[shape.kind][planar ? 'planar' : 'spatial']}
+            </span>
+            <button onClick={() => onUpdateShape(shape.id, { visible: !shape.visible })} className="p-2 text-gray-400 hover:text-white transition-colors" aria-label={shape.visible ? 'Hide shape' : 'Show shape'}>
+                {shape.visible ?
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M10 12a2 2 0 100-4 2 2 0 000 4z" /><path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.022 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" /></svg>
+                    :
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3.707 2.293a1 1 0 00-1.414 1.414l14 14a1 1 0 001.414-1.414l-1.473-1.473A10.014 10.014 0 0019.542 10C18.268 5.943 14.478 3 10 3a9.958 9.958 0 00-4.512 1.074l-1.78-1.781zm4.261 4.26l1.514 1.515a2 2 0 012.828 2.828l1.515 1.515A4 4 0 0014 10a4 4 0 10-5.432-3.432z" clipRule="evenodd" /></svg>
+                }
+            </button>
+            <button onClick={() => onRemoveShape(shape.id)} className="p-2 text-gray-400 hover:text-red-500 transition-colors" aria-label="Remove shape">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+            </button>
+        </div>
+    </div>
+);
+
+const POINT_CLOUD_COLORING_OPTIONS: { value: PointCloudColoring; label: string }[] = [
+    { value: 'label', label: 'Label' },
+    { value: 'colormap', label: 'Colormap' },
+    { value: 'solid', label: 'Solid' },
+];
+
+const MatrixGrid: React.FC<{
+    matrix: Matrix;
+    onMatrixChange: (matrix: Matrix) => void;
+}> = ({ matrix, onMatrixChange }) => {
+    const handleValueChange = (row: number, col: number, value: number) => {
+        const newMatrix = matrix.map(r => [...r]);
+        newMatrix[row][col] = value;
+        onMatrixChange(newMatrix);
+    };
+
+    return (
+        <div className="grid gap-2 pt-3" style={gridColumns(matrix[0]?.length ?? 3)}>
+            {matrix.map((row, i) =>
+                row.map((val, j) => (
+                    <NumberInput key={`${i}-${j}`} value={val} onChange={(v) => handleValueChange(i, j, v)} className="w-full" />
+                ))
+            )}
+        </div>
+    );
+};
+
+const ExpressionGrid: React.FC<{
+    expressions: string[][];
+    onChange: (expressions: string[][]) => void;
+}> = ({ expressions, onChange }) => (
+    <div className="grid gap-2 pt-3" style={gridColumns(expressions[0]?.length ?? 3)}>
+        {expressions.map((row, i) =>
+            row.map((expression, j) => (
+                <input
+                    key={`${i}-${j}`}
+                    type="text"
+                    value={expression}
+                    onChange={(e) => onChange(expressions.map((current, r) => (r === i ? current.map((entry, c) => (c === j ? e.target.value : entry)) : current)))}
+                    className="w-full min-w-0 bg-gray-700 text-white rounded p-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+            ))
+        )}
+    </div>
+);
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 96;
+const PLOT_RANGE = 3;
+
+// Graph of f on [-3, 3]; the y-range grows from [-1, 1] to fit the samples.
+const ActivationPlot: React.FC<{ fn: (x: number) => number }> = ({ fn }) => {
+    const samples = Array.from({ length: 121 }, (_, i) => {
+        const x = -PLOT_RANGE + (2 * PLOT_RANGE * i) / 120;
+        return { x, y: fn(x) };
+    });
+    const finite = samples.filter(sample => Number.isFinite(sample.y));
+    if (finite.length === 0) {
+        return <p className="text-xs text-gray-500">f(x) is undefined on [-{PLOT_RANGE}, {PLOT_RANGE}].</p>;
+    }
+    const yMin = Math.min(-1, ...finite.map(sample => sample.y));
+    const yMax = Math.max(1, ...finite.map(sample => sample.y));
+    const toX = (x: number) => ((x + PLOT_RANGE) / (2 * PLOT_RANGE)) * PLOT_WIDTH;
+    const toY = (y: number) => PLOT_HEIGHT - ((y - yMin) / (yMax - yMin)) * PLOT_HEIGHT;
+
+    // Non-finite samples lift the pen so poles and gaps are not bridged.
+    let path = '';
+    let penDown = false;
+    for (const sample of samples) {
+        if (!Number.isFinite(sample.y)) {
+            penDown = false;
+            continue;
+        }
+        path += `${penDown ? 'L' : 'M'}${toX(sample.x).toFixed(1)},${toY(sample.y).toFixed(1)}`;
+        penDown = true;
+    }
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-gray-800 rounded">
+                <line x1={0} x2={PLOT_WIDTH} y1={toY(0)} y2={toY(0)} stroke="#4b5563" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                <line x1={toX(0)} x2={toX(0)} y1={0} y2={PLOT_HEIGHT} stroke="#4b5563" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                <path d={path} fill="none" stroke="#22d3ee" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            </svg>
+            <p className="text-xs text-gray-500 mt-1 font-mono">
+                x ∈ [-{PLOT_RANGE}, {PLOT_RANGE}] • y ∈ [{yMin.toFixed(2)}, {yMax.toFixed(2)}]
+            </p>
+        </div>
+    );
+};
+
+// Sliders for named parameters; `editableRange` adds min/max inputs for user-defined names.
+// With `liveValues`, parameters flagged as animated get a "t" toggle and show the value t drives.
+function ParameterSliders<P extends ActivationParameter & { animated?: boolean }>({ params, onChange, editableRange, idPrefix, liveValues }: {
+    params: P[];
+    onChange: (params: P[]) => void;
+    editableRange: boolean;
+    idPrefix: string;
+    liveValues?: Record<string, number>;
+}) {
+    return (
+        <>
+            {params.map(param => {
+                const updateParam = (updates: Partial<P>) => onChange(
+                    params.map(current => (current.name === param.name ? { ...current, ...updates } : current))
+                );
+                return (
+                    <div key={param.name} className="space-y-1">
+                        <div className="flex items-center gap-3">
+                            <label htmlFor={`${idPrefix}-${param.name}`} className="text-sm font-mono text-cyan-400 w-12 flex-shrink-0 truncate">{param.name}</label>
+                            <input
+                                id={`${idPrefix}-${param.name}`}
+                                type="range"
+                                min={param.min}
+                                max={param.max}
+                                step={(param.max - param.min) / 100}
+                                value={param.animated && liveValues ? liveValues[param.name] ?? param.value : param.value}
+                                disabled={param.animated}
+                                onChange={(e) => updateParam({ value: parseFloat(e.target.value) } as Partial<P>)}
+                                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-60"
+                            />
+                            <span className="text-xs font-mono text-gray-300 w-12 text-right">
+                                {(param.animated && liveValues ? liveValues[param.name] ?? param.value : param.value).toFixed(2)}
+                            </span>
+                            {liveValues && (
+                                <button
+                                    type="button"
+                                    onClick={() => updateParam({ animated: !param.animated } as Partial<P>)}
+                                    title="Sweep from min to max as t runs"
+                                    className={`px-2 py-0.5 text-xs font-semibold rounded-md transition-colors ${
+                                        param.animated
+                                            ? 'bg-cyan-500 text-gray-900'
+                                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                    }`}
+                                >
+                                    t
+                                </button>
+                            )}
+                        </div>
+                        {editableRange && (
+                            <div className="flex items-center justify-end gap-2 text-xs text-gray-400">
+                                <span>range</span>
+                                <NumberInput
+                                    value={param.min}
+                                    onChange={(v) => v < param.max && updateParam({ min: v, value: Math.max(v, param.value) } as Partial<P>)}
+                                    className="w-16 p-1"
+                                />
+                                <NumberInput
+                                    value={param.max}
+                                    onChange={(v) => v > param.min && updateParam({ max: v, value: Math.min(v, param.value) } as Partial<P>)}
+                                    className="w-16 p-1"
+                                />
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </>
+    );
+}
+
 const TabButton: React.FC<{ active: boolean, onClick: () => void, children: React.ReactNode }> = ({ active, onClick, children }) => (
     <button
         onClick={onClick}
@@ -160,6 +530,57 @@ const TabButton: React.FC<{ active: boolean, onClick: () => void, children: Reac
 
 const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
     const {
+        dimension,
+        projection,
+        onDimensionChange,
+        onProjectionChange,
+        affine,
+        translation,
+        onAffineToggle,
+        onTranslationChange,
+        dynamicsMode,
+        iterationSteps,
+        iterationBias,
+        cobweb,
+        onDynamicsModeChange,
+        onIterationStepsChange,
+        onIterationBiasChange,
+        onCobwebToggle,
+        networkLayers,
+        onAddNetworkLayer,
+        onUpdateNetworkLayer,
+        onRemoveNetworkLayer,
+        onMoveNetworkLayer,
+        odeField,
+        odeSolver,
+        odeStep,
+        odeTolerance,
+        odeTolerances,
+        onOdeFieldChange,
+        onOdeSolverChange,
+        onOdeStepChange,
+        onOdeToleranceChange,
+        fieldExpressions,
+        fieldParams,
+        fieldPresetName,
+        fieldError,
+        onFieldExpressionsChange,
+        onFieldParamsChange,
+        onFieldPresetSelect,
+        parametricMatrix,
+        parametricError,
+        matrixParamValues,
+        onParametricToggle,
+        onMatrixExpressionsChange,
+        onMatrixParamsChange,
+        onParametricPresetSelect,
+        timeVaryingExpressions,
+        transitionIntegrator,
+        transitionStep,
+        transitionError,
+        onTimeVaryingExpressionsChange,
+        onTransitionIntegratorChange,
+        onTransitionStepChange,
         matrix,
         vectors,
         walls,
@@ -171,6 +592,13 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         fadingPathStyle,
         showStartMarkers,
         showEndMarkers,
+        showEigenvectors,
+        showDeterminantVolume,
+        showSingularEllipsoid,
+        fieldOverlay,
+        fieldOverlayAvailable,
+        coordinateFrame,
+        onCoordinateFrameChange,
         dynamicFadingPath,
         isPlaying,
         animationConfig,
@@ -180,14 +608,33 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         matrixScalar,
         matrixExponent,
         normalizeMatrix,
-        linearEigenInterpolation,
+        evaluationMode,
+        branchPolicy,
+        branchIndex,
+        hasNegativeEigenvalues,
         normalizationWarning,
+        pathMode,
+        matrixB,
+        selectedPresetNameB,
+        geodesicBlend,
+        onPathModeChange,
+        onMatrixBChange,
+        onPresetBSelect,
+        onGeodesicBlendChange,
+        chainSegments,
+        chainDuration,
+        onAddChainSegment,
+        onUpdateChainSegment,
+        onRemoveChainSegment,
+        onMoveChainSegment,
         onMatrixChange,
         onPresetSelect,
         onMatrixScalarChange,
         onMatrixExponentChange,
         onNormalizeToggle,
-        onLinearInterpolationToggle,
+        onEvaluationModeChange,
+        onBranchPolicyChange,
+        onBranchIndexChange,
         onVectorChange,
         onVectorColorChange,
         onAddVector,
@@ -203,6 +650,10 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         onDynamicFadingPathChange,
         onShowStartMarkersChange,
         onShowEndMarkersChange,
+        onShowEigenvectorsChange,
+        onShowDeterminantVolumeChange,
+        onShowSingularEllipsoidChange,
+        onFieldOverlayChange,
         onResetTime,
         onPlayPause,
         onAnimationConfigChange,
@@ -211,6 +662,16 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         onAddWall,
         onUpdateWall,
         onRemoveWall,
+        shapes,
+        followsMatrixPath,
+        onAddShape,
+        onImportShapeMesh,
+        onUpdateShape,
+        onRemoveShape,
+        pointCloud,
+        onImportPointCloud,
+        onPointCloudChange,
+        onRemovePointCloud,
         profileSummaries,
         activeProfileName,
         onProfileSave,
@@ -218,10 +679,26 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         onProfileDelete,
         error
     } = props;
+
+    // Iteration steps A itself and the network brings its own layers, so path-specific cards are hidden there.
+    const iterating = dynamicsMode === 'iterate';
+    const networking = dynamicsMode === 'network';
+    const integrating = dynamicsMode === 'neuralOde';
+    const fieldMode = dynamicsMode === 'vectorField';
+    const activePathMode: PathMode = dynamicsMode === 'interpolate' ? pathMode : 'identity';
+    // Only the continuous path and the network layers are built from Aˢ, so only they use the evaluation settings.
+    const usesEvaluation = (dynamicsMode === 'interpolate' && activePathMode !== 'timeVarying') || networking;
+    // A flow ends at e^A rather than at B or at a layer's W, so the geodesic path and the network have none.
+    const flowAvailable = activePathMode !== 'geodesic' && !networking;
+    const editsMatrixA = activePathMode !== 'chain' && activePathMode !== 'timeVarying' && !networking && !fieldMode;
+    const parametricPresets = parametricPresetsForDimension(dimension);
+    const singleVectorExpression = activationConfig.vectorFnStrs.length === 1;
     
     const [activeTab, setActiveTab] = useState<'controls' | 'animation' | 'walls' | 'profiles'>('controls');
     const [profileNameInput, setProfileNameInput] = useState<string>('');
     const [profileFeedback, setProfileFeedback] = useState<ProfileOperationResult | null>(null);
+    const [shapeImportError, setShapeImportError] = useState<string | null>(null);
+    const [pointCloudError, setPointCloudError] = useState<string | null>(null);
 
     useEffect(() => {
         if (activeProfileName && profileNameInput.trim().length === 0) {
@@ -235,12 +712,6 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
         return () => window.clearTimeout(timeout);
     }, [profileFeedback]);
 
-    const handleMatrixValueChange = (row: number, col: number, value: number) => {
-        const newMatrix = matrix.map(r => [...r]) as Matrix3;
-        newMatrix[row][col] = value;
-        onMatrixChange(newMatrix);
-    };
-
     const handleStartTChange = (value: number) => {
         const updatedConfig = { 
             ...animationConfig, 
@@ -265,13 +736,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
     };
 
     const handleRandomMatrix = () => {
-        const randomValue = () => parseFloat((Math.random() * 4 - 2).toFixed(2));
-        const randomMatrix: Matrix3 = [
-            [randomValue(), randomValue(), randomValue()],
-            [randomValue(), randomValue(), randomValue()],
-            [randomValue(), randomValue(), randomValue()],
-        ];
-        onMatrixChange(randomMatrix);
+        onMatrixChange(randomMatrix(dimension));
     };
 
     const handlePrecisionChange = (sliderValue: number) => {
@@ -313,7 +778,8 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
     };
 
     // --- Preset Slider Logic ---
-    const sliderPresets = PRESET_MATRICES.filter(p => p.name !== 'Custom');
+    const presetOptions = presetsForDimension(dimension);
+    const sliderPresets = presetOptions.filter(p => p.name !== 'Custom');
     const currentSliderIndex = sliderPresets.findIndex(p => p.name === selectedPresetName);
     const [lastSliderIndex, setLastSliderIndex] = useState(() => Math.max(0, currentSliderIndex));
 
@@ -387,6 +853,211 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                         <span className={`${showEndMarkers ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
                                     </button>
                                 </div>
+                                <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
+                                    <div>
+                                        <label htmlFor="eigenvectorToggle" className="font-medium text-gray-300">Show Eigenvectors</label>
+                                        <p className="text-xs text-gray-400 mt-1">Real eigenvectors as lines; complex pairs as the plane they rotate in.</p>
+                                    </div>
+                                    <button
+                                        id="eigenvectorToggle"
+                                        role="switch"
+                                        aria-checked={showEigenvectors}
+                                        onClick={() => onShowEigenvectorsChange(!showEigenvectors)}
+                                        className={`${showEigenvectors ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                    >
+                                        <span className={`${showEigenvectors ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                    </button>
+                                </div>
+                                <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
+                                    <div>
+                                        <label htmlFor="determinantVolumeToggle" className="font-medium text-gray-300">Determinant Volume</label>
+                                        <p className="text-xs text-gray-400 mt-1">Image of the unit cube under A(t); turns orange when det &lt; 0.</p>
+                                    </div>
+                                    <button
+                                        id="determinantVolumeToggle"
+                                        role="switch"
+                                        aria-checked={showDeterminantVolume}
+                                        onClick={() => onShowDeterminantVolumeChange(!showDeterminantVolume)}
+                                        className={`${showDeterminantVolume ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                    >
+                                        <span className={`${showDeterminantVolume ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                    </button>
+                                </div>
+                                <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
+                                    <div>
+                                        <label htmlFor="singularEllipsoidToggle" className="font-medium text-gray-300">Singular-Value Ellipsoid</label>
+                                        <p className="text-xs text-gray-400 mt-1">Image of the unit sphere under A(t), with its principal semi-axes.</p>
+                                    </div>
+                                    <button
+                                        id="singularEllipsoidToggle"
+                                        role="switch"
+                                        aria-checked={showSingularEllipsoid}
+                                        onClick={() => onShowSingularEllipsoidChange(!showSingularEllipsoid)}
+                                        className={`${showSingularEllipsoid ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                    >
+                                        <span className={`${showSingularEllipsoid ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                    </button>
+                                </div>
+                                <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
+                                    <div>
+                                        <label htmlFor="coordinateFrameToggle" className="font-medium text-gray-300">Moving Coordinate Frame</label>
+                                        <p className="text-xs text-gray-400 mt-1">Aᵗe₁, Aᵗe₂, Aᵗe₃ and the coordinate grid, warped by A(t) and the activation.</p>
+                                    </div>
+                                    <button
+                                        id="coordinateFrameToggle"
+                                        role="switch"
+                                        aria-checked={coordinateFrame.enabled}
+                                        onClick={() => onCoordinateFrameChange({ ...coordinateFrame, enabled: !coordinateFrame.enabled })}
+                                        className={`${coordinateFrame.enabled ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                    >
+                                        <span className={`${coordinateFrame.enabled ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                    </button>
+                                </div>
+                                {coordinateFrame.enabled && (
+                                    <div className="grid grid-cols-2 gap-2 text-xs text-gray-400 bg-gray-800/60 border border-cyan-500/40 rounded-lg p-3">
+                                        {!followsMatrixPath && (
+                                            <p className="col-span-2 text-amber-300">The frame follows A(t) along a matrix path and is hidden in the other dynamics modes.</p>
+                                        )}
+                                        <label className="space-y-1">
+                                            <span>Lines per unit</span>
+                                            <NumberInput
+                                                value={coordinateFrame.density}
+                                                onChange={v => onCoordinateFrameChange({ ...coordinateFrame, density: v })}
+                                                step={0.25}
+                                                min={0.25}
+                                                max={4}
+                                                className="w-full"
+                                            />
+                                        </label>
+                                        <label className="space-y-1">
+                                            <span>Extent</span>
+                                            <NumberInput
+                                                value={coordinateFrame.extent}
+                                                onChange={v => onCoordinateFrameChange({ ...coordinateFrame, extent: v })}
+                                                step={1}
+                                                min={1}
+                                                max={10}
+                                                className="w-full"
+                                            />
+                                        </label>
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
+                                    <div>
+                                        <label htmlFor="fieldOverlayToggle" className="font-medium text-gray-300">Vector Field Overlay</label>
+                                        <p className="text-xs text-gray-400 mt-1">Arrows for the local velocity, with optional streamlines.</p>
+                                    </div>
+                                    <button
+                                        id="fieldOverlayToggle"
+                                        role="switch"
+                                        aria-checked={fieldOverlay.enabled}
+                                        onClick={() => onFieldOverlayChange({ ...fieldOverlay, enabled: !fieldOverlay.enabled })}
+                                        className={`${fieldOverlay.enabled ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                    >
+                                        <span className={`${fieldOverlay.enabled ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                    </button>
+                                </div>
+                                {fieldOverlay.enabled && (
+                                    <div className="space-y-3 bg-gray-800/60 border border-cyan-500/40 rounded-lg p-3">
+                                        {!fieldOverlayAvailable && (
+                                            <p className="text-xs text-amber-300">
+                                                No velocity field here. Use the flow or power path from the identity, the ODE modes, or a vector field.
+                                            </p>
+                                        )}
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {(['slice', 'lattice'] as const).map(layout => (
+                                                <button
+                                                    key={layout}
+                                                    type="button"
+                                                    onClick={() => onFieldOverlayChange({ ...fieldOverlay, layout })}
+                                                    className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors ${
+                                                        fieldOverlay.layout === layout
+                                                            ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                    }`}
+                                                >
+                                                    {layout === 'slice' ? 'Slice' : 'Lattice'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {fieldOverlay.layout === 'slice' && (
+                                            <div className="grid grid-cols-[auto,1fr] items-center gap-2">
+                                                <div className="flex gap-1">
+                                                    {(['x', 'y', 'z'] as WallAxis[]).map(axis => (
+                                                        <button
+                                                            key={axis}
+                                                            type="button"
+                                                            onClick={() => onFieldOverlayChange({ ...fieldOverlay, sliceAxis: axis })}
+                                                            className={`px-2 py-1 text-sm font-mono rounded-md transition-colors ${
+                                                                fieldOverlay.sliceAxis === axis
+                                                                    ? 'bg-cyan-500 text-gray-900'
+                                                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                            }`}
+                                                        >
+                                                            {axis}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                                    <span>at</span>
+                                                    <NumberInput
+                                                        value={fieldOverlay.slicePosition}
+                                                        onChange={v => onFieldOverlayChange({ ...fieldOverlay, slicePosition: v })}
+                                                        className="w-full"
+                                                    />
+                                                </label>
+                                            </div>
+                                        )}
+                                        <div className="grid grid-cols-3 gap-2 text-xs text-gray-400">
+                                            <label className="space-y-1">
+                                                <span>Density</span>
+                                                <NumberInput
+                                                    value={fieldOverlay.density}
+                                                    onChange={v => onFieldOverlayChange({ ...fieldOverlay, density: v })}
+                                                    step={1}
+                                                    min={2}
+                                                    max={20}
+                                                    className="w-full"
+                                                />
+                                            </label>
+                                            <label className="space-y-1">
+                                                <span>Extent</span>
+                                                <NumberInput
+                                                    value={fieldOverlay.extent}
+                                                    onChange={v => onFieldOverlayChange({ ...fieldOverlay, extent: v })}
+                                                    step={0.5}
+                                                    min={0.5}
+                                                    className="w-full"
+                                                />
+                                            </label>
+                                            <label className="space-y-1">
+                                                <span>Arrow scale</span>
+                                                <NumberInput
+                                                    value={fieldOverlay.scale}
+                                                    onChange={v => onFieldOverlayChange({ ...fieldOverlay, scale: v })}
+                                                    step={0.05}
+                                                    min={0.01}
+                                                    className="w-full"
+                                                />
+                                            </label>
+                                        </div>
+                                        <div className="flex items-center justify-between bg-gray-900/60 rounded-md px-3 py-2">
+                                            <div>
+                                                <label htmlFor="streamlineToggle" className="font-medium text-gray-200">Streamlines</label>
+                                                <p className="text-xs text-gray-400 mt-1">Integrate curves through a coarser set of seeds.</p>
+                                            </div>
+                                            <button
+                                                id="streamlineToggle"
+                                                role="switch"
+                                                aria-checked={fieldOverlay.streamlines}
+                                                onClick={() => onFieldOverlayChange({ ...fieldOverlay, streamlines: !fieldOverlay.streamlines })}
+                                                className={`${fieldOverlay.streamlines ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                            >
+                                                <span className={`${fieldOverlay.streamlines ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`}/>
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
                                 <div className="flex items-center justify-between bg-gray-700 p-3 rounded-lg">
                                     <div>
                                         <label htmlFor="fadingPathToggle" className="font-medium text-gray-300">Fading Path</label>
@@ -468,9 +1139,201 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                         </div>
 
                         <div>
-                            <h2 className="text-lg font-semibold mb-2 text-gray-200">Matrix A</h2>
+                            <h2 className="text-lg font-semibold mb-2 text-gray-200">Dynamics</h2>
+                            <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {DYNAMICS_MODE_OPTIONS.map(option => (
+                                        <button
+                                            key={option.value}
+                                            type="button"
+                                            onClick={() => onDynamicsModeChange(option.value)}
+                                            className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                dynamicsMode === option.value
+                                                    ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                            }`}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-400">
+                                    {DYNAMICS_MODE_OPTIONS.find(option => option.value === dynamicsMode)?.description}
+                                </p>
+                                {iterating && (
+                                    <>
+                                        <div className="flex items-center justify-between">
+                                            <label className="text-sm font-medium text-gray-300">Steps N</label>
+                                            <NumberInput
+                                                value={iterationSteps}
+                                                onChange={(v) => onIterationStepsChange(v)}
+                                                step={1}
+                                                min={1}
+                                                max={200}
+                                                className="w-24"
+                                            />
+                                        </div>
+                                        <div>
+                                            <span className="text-sm font-medium text-gray-300 block mb-2">Bias b</span>
+                                            <div className="grid gap-2" style={gridColumns(iterationBias.length)}>
+                                                {iterationBias.map((value, i) => (
+                                                    <NumberInput
+                                                        key={i}
+                                                        value={value}
+                                                        onChange={(v) => onIterationBiasChange(iterationBias.map((current, j) => (j === i ? v : current)))}
+                                                        className="w-full"
+                                                    />
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center justify-between">
+                                            <label htmlFor="cobwebToggle" className="text-sm font-medium text-gray-300">Cobweb steps</label>
+                                            <button
+                                                id="cobwebToggle"
+                                                role="switch"
+                                                aria-checked={cobweb}
+                                                onClick={() => onCobwebToggle(!cobweb)}
+                                                className={`${cobweb ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                            >
+                                                <span className={`${cobweb ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`} />
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                                {(integrating || fieldMode) && (
+                                    <>
+                                        {integrating && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {ODE_FIELD_OPTIONS.map(option => (
+                                                <button
+                                                    key={option.value}
+                                                    type="button"
+                                                    onClick={() => onOdeFieldChange(option.value)}
+                                                    className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                        odeField === option.value
+                                                            ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                    }`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        )}
+                                        <div>
+                                            <span className="text-sm font-medium text-gray-300 block mb-2">Solver</span>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                {ODE_SOLVER_OPTIONS.map(option => (
+                                                    <button
+                                                        key={option.value}
+                                                        type="button"
+                                                        onClick={() => onOdeSolverChange(option.value)}
+                                                        className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                        odeSolver === option.value
+                                                            ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                    }`}
+                                                    >
+                                                        {option.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-gray-400 mt-1">
+                                                {ODE_SOLVER_OPTIONS.find(option => option.value === odeSolver)?.description}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center justify-between">
+                                            <label className="text-sm font-medium text-gray-300">{odeSolver === 'rk4' ? 'Step h' : 'First step h'}</label>
+                                            <NumberInput
+                                                value={odeStep}
+                                                onChange={(v) => onOdeStepChange(v)}
+                                                step={0.005}
+                                                min={0.001}
+                                                max={0.5}
+                                                className="w-24"
+                                            />
+                                        </div>
+                                        {odeSolver === 'rk45' && (
+                                            <div className="flex items-center justify-between gap-2">
+                                                <label htmlFor="odeToleranceSelect" className="text-sm font-medium text-gray-300">Tolerance</label>
+                                                <select
+                                                    id="odeToleranceSelect"
+                                                    value={odeTolerance}
+                                                    onChange={(e) => onOdeToleranceChange(parseFloat(e.target.value))}
+                                                    className="w-24 bg-gray-700 text-white rounded p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                >
+                                                    {odeTolerances.map(tolerance => (
+                                                        <option key={tolerance} value={tolerance}>{tolerance.toExponential(0)}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        <div>
+                            <h2 className="text-lg font-semibold mb-2 text-gray-200">{fieldMode ? 'Dimension' : 'Matrix A'}</h2>
                             <div className="p-3 bg-gray-900/50 rounded-lg">
                                 <div className="mb-3 pb-3 border-b border-gray-700">
+                                    {dynamicsMode === 'interpolate' && (
+                                    <div className="grid grid-cols-2 gap-2 mb-3">
+                                        {PATH_MODE_OPTIONS.map(option => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                onClick={() => onPathModeChange(option.value)}
+                                                className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                    pathMode === option.value
+                                                        ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    )}
+                                    <div className="flex items-center justify-between mb-3">
+                                        <label className="text-sm font-medium text-gray-300">Dimension N</label>
+                                        <NumberInput
+                                            value={dimension}
+                                            onChange={(v) => onDimensionChange(v)}
+                                            step={1}
+                                            min={2}
+                                            max={6}
+                                            className="w-24"
+                                        />
+                                    </div>
+                                    {editsMatrixA && (
+                                    <div className="flex items-center justify-between mb-3">
+                                        <label htmlFor="parametricToggle" className="text-sm font-medium text-gray-300">Expression entries</label>
+                                        <button
+                                            id="parametricToggle"
+                                            role="switch"
+                                            aria-checked={parametricMatrix.enabled}
+                                            onClick={() => onParametricToggle(!parametricMatrix.enabled)}
+                                            className={`${parametricMatrix.enabled ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                        >
+                                            <span className={`${parametricMatrix.enabled ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`} />
+                                        </button>
+                                    </div>
+                                    )}
+                                    {editsMatrixA && parametricMatrix.enabled && (
+                                        <select
+                                            value=""
+                                            onChange={(e) => onParametricPresetSelect(e.target.value)}
+                                            className="w-full bg-gray-700 text-white rounded p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                        >
+                                            <option value="" disabled>Template…</option>
+                                            {parametricPresets.map(preset => (
+                                                <option key={preset.name} value={preset.name}>{preset.name}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    {editsMatrixA && !parametricMatrix.enabled && (
+                                    <>
                                     <div className="flex items-center gap-4">
                                         <label htmlFor="presetSlider" className="text-sm font-medium text-gray-300 flex-shrink-0">Preset</label>
                                         <input
@@ -493,7 +1356,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                             onChange={(e) => onPresetSelect(e.target.value)}
                                             className="flex-1 bg-gray-700 text-white rounded p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
                                         >
-                                            {PRESET_MATRICES.map(preset => (
+                                            {presetOptions.map(preset => (
                                                 <option key={preset.name} value={preset.name}>
                                                     {preset.name}
                                                 </option>
@@ -508,7 +1371,11 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                         </button>
                                     </div>
                                     <p className="text-center text-cyan-400 font-medium text-xs mt-2">{selectedPresetName}</p>
+                                    </>
+                                    )}
                                     <div className="mt-3 space-y-3">
+                                        {editsMatrixA && (
+                                        <>
                                         <div className="flex items-center justify-between">
                                             <label className="text-sm font-medium text-gray-300">Scalar</label>
                                             <NumberInput
@@ -539,35 +1406,454 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                                 <span className={`${normalizeMatrix ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`} />
                                             </button>
                                         </div>
+                                        </>
+                                        )}
+                                        {usesEvaluation && (
+                                        <div>
+                                            <span className="text-sm font-medium text-gray-300 block mb-2">Evaluation</span>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                {EVALUATION_MODE_OPTIONS.map(option => (
+                                                    <button
+                                                        key={option.value}
+                                                        type="button"
+                                                        disabled={option.value === 'flow' && !flowAvailable}
+                                                        onClick={() => onEvaluationModeChange(option.value)}
+                                                        className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                                                            evaluationMode === option.value
+                                                                ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                        }`}
+                                                    >
+                                                        {option.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-gray-400 mt-1">
+                                                {EVALUATION_MODE_OPTIONS.find(option => option.value === evaluationMode)?.description}
+                                            </p>
+                                        </div>
+                                        )}
+                                        {evaluationMode === 'power' && usesEvaluation && (
+                                            <div className="space-y-2">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <label htmlFor="branchPolicySelect" className="text-sm font-medium text-gray-300">Branch</label>
+                                                    <select
+                                                        id="branchPolicySelect"
+                                                        value={branchPolicy}
+                                                        onChange={(e) => onBranchPolicyChange(e.target.value as BranchPolicy)}
+                                                        className="flex-1 bg-gray-700 text-white rounded p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                    >
+                                                        {BRANCH_POLICY_OPTIONS.map(option => (
+                                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div className="flex items-center justify-between">
+                                                    <label className="text-sm font-medium text-gray-300">Winding k</label>
+                                                    <NumberInput
+                                                        value={branchIndex}
+                                                        onChange={(v) => onBranchIndexChange(Math.round(v))}
+                                                        step={1}
+                                                        className="w-24"
+                                                    />
+                                                </div>
+                                                <p className={`text-xs ${hasNegativeEigenvalues ? 'text-amber-300' : 'text-gray-400'}`}>
+                                                    {hasNegativeEigenvalues && 'A has a negative eigenvalue. '}
+                                                    {BRANCH_POLICY_OPTIONS.find(option => option.value === branchPolicy)?.description}
+                                                </p>
+                                            </div>
+                                        )}
+                                        {normalizationWarning && (
+                                            <p className="text-xs text-amber-300 bg-amber-900/30 border border-amber-500/40 rounded px-3 py-2">
+                                                {normalizationWarning}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                                {editsMatrixA && !parametricMatrix.enabled && <MatrixGrid matrix={matrix} onMatrixChange={onMatrixChange} />}
+                                {editsMatrixA && parametricMatrix.enabled && (
+                                    <div className="space-y-3">
+                                        <ExpressionGrid expressions={parametricMatrix.expressions} onChange={onMatrixExpressionsChange} />
+                                        {parametricError && <p className="text-red-400 text-xs">{parametricError}</p>}
+                                        <ParameterSliders
+                                            params={parametricMatrix.params}
+                                            onChange={onMatrixParamsChange}
+                                            editableRange
+                                            idPrefix="matrixParam"
+                                            liveValues={matrixParamValues}
+                                        />
+                                    </div>
+                                )}
+                                {pathMode === 'identity' && dynamicsMode === 'interpolate' && (
+                                    <div className="mt-3 pt-3 border-t border-gray-700 space-y-2">
                                         <div className="flex items-center justify-between">
-                                            <label htmlFor="linearInterpolationToggle" className="text-sm font-medium text-gray-300">Linear Eigen Interp.</label>
+                                            <label htmlFor="affineToggle" className="text-sm font-medium text-gray-300">Affine (Ax + b)</label>
                                             <button
-                                                id="linearInterpolationToggle"
+                                                id="affineToggle"
                                                 role="switch"
-                                                aria-checked={linearEigenInterpolation}
-                                                onClick={() => onLinearInterpolationToggle(!linearEigenInterpolation)}
-                                                className={`${linearEigenInterpolation ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                                aria-checked={affine}
+                                                onClick={() => onAffineToggle(!affine)}
+                                                className={`${affine ? 'bg-cyan-500' : 'bg-gray-600'} relative inline-flex items-center h-6 rounded-full w-11 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500`}
+                                            >
+                                                <span className={`${affine ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`} />
+                                            </button>
+                                        </div>
+                                        {affine && (
+                                            <>
+                                                <div className="grid gap-2" style={gridColumns(translation.length)}>
+                                                    {translation.map((value, i) => (
+                                                        <NumberInput
+                                                            key={i}
+                                                            value={value}
+                                                            onChange={(v) => onTranslationChange(translation.map((current, j) => (j === i ? v : current)))}
+                                                            className="w-full"
+                                                        />
+                                                    ))}
+                                                </div>
+                                                <p className="text-xs text-gray-400">
+                                                    Translation b. Powers of [A b; 0 1] move and turn together, like a screw.
+                                                </p>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+
+                        {activePathMode === 'chain' && (
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h2 className="text-lg font-semibold text-gray-200">Chain</h2>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => chainDuration !== null && onAnimationConfigChange({ ...animationConfig, startT: 0, endT: chainDuration })}
+                                            disabled={chainDuration === null}
+                                            className="bg-gray-700 hover:bg-gray-600 text-cyan-300 text-xs font-semibold py-1 px-2 rounded transition-colors duration-300 disabled:opacity-50"
+                                            type="button"
+                                        >
+                                            Fit t-range
+                                        </button>
+                                        <button
+                                            onClick={onAddChainSegment}
+                                            className="bg-gray-700 hover:bg-gray-600 text-cyan-400 text-xs font-bold py-1 px-2 rounded transition-colors duration-300"
+                                            type="button"
+                                        >
+                                            + ADD
+                                        </button>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-400 mb-2">
+                                    Each segment applies Mᵢᵗ on top of the previous ones; t runs from 0 to the total duration.
+                                </p>
+                                <div className="space-y-2">
+                                    {chainSegments.map((segment, index) => (
+                                        <div key={segment.id} className="p-3 bg-gray-900/50 rounded-lg">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-mono text-cyan-400 w-8">M{index + 1}</span>
+                                                <select
+                                                    value={segment.presetName}
+                                                    onChange={(e) => {
+                                                        const preset = presetOptions.find(p => p.name === e.target.value);
+                                                        if (preset) {
+                                                            onUpdateChainSegment(segment.id, { matrix: preset.matrix, presetName: preset.name });
+                                                        }
+                                                    }}
+                                                    className="flex-1 min-w-0 bg-gray-700 text-white rounded p-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                >
+                                                    {presetOptions.map(preset => (
+                                                        <option key={preset.name} value={preset.name}>
+                                                            {preset.name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <NumberInput
+                                                    value={segment.duration}
+                                                    onChange={(v) => onUpdateChainSegment(segment.id, { duration: v })}
+                                                    step={0.25}
+                                                    min={0.05}
+                                                    className="w-16"
+                                                />
+                                                <button
+                                                    onClick={() => onMoveChainSegment(segment.id, -1)}
+                                                    disabled={index === 0}
+                                                    className="p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+                                                    aria-label="Move segment up"
+                                                    type="button"
+                                                >
+                                                    ↑
+                                                </button>
+                                                <button
+                                                    onClick={() => onMoveChainSegment(segment.id, 1)}
+                                                    disabled={index === chainSegments.length - 1}
+                                                    className="p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+                                                    aria-label="Move segment down"
+                                                    type="button"
+                                                >
+                                                    ↓
+                                                </button>
+                                                <button
+                                                    onClick={() => onRemoveChainSegment(segment.id)}
+                                                    disabled={chainSegments.length <= 1}
+                                                    className="p-1 text-gray-400 hover:text-red-500 transition-colors disabled:opacity-30"
+                                                    aria-label="Remove segment"
+                                                    type="button"
+                                                >
+                                                    ✕
+                                                </button>
+                                            </div>
+                                            <MatrixGrid
+                                                matrix={segment.matrix}
+                                                onMatrixChange={(next) => onUpdateChainSegment(segment.id, { matrix: next })}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {networking && (
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h2 className="text-lg font-semibold text-gray-200">Network</h2>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => onAnimationConfigChange({ ...animationConfig, startT: 0, endT: networkLayers.length })}
+                                            className="bg-gray-700 hover:bg-gray-600 text-cyan-300 text-xs font-semibold py-1 px-2 rounded transition-colors duration-300"
+                                            type="button"
+                                        >
+                                            Fit t-range
+                                        </button>
+                                        <button
+                                            onClick={onAddNetworkLayer}
+                                            className="bg-gray-700 hover:bg-gray-600 text-cyan-400 text-xs font-bold py-1 px-2 rounded transition-colors duration-300"
+                                            type="button"
+                                        >
+                                            + ADD
+                                        </button>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-400 mb-2">
+                                    Layer k maps x to f(Wₖ·x + bₖ); the first half of its t-slice runs the linear part, the second half bends it through f.
+                                </p>
+                                <div className="space-y-2">
+                                    {networkLayers.map((layer, index) => (
+                                        <div key={layer.id} className="p-3 bg-gray-900/50 rounded-lg space-y-2">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-sm font-mono text-cyan-400 w-8">L{index + 1}</span>
+                                                <select
+                                                    value={layer.activation}
+                                                    onChange={(e) => onUpdateNetworkLayer(layer.id, { activation: e.target.value })}
+                                                    className="flex-1 min-w-0 bg-gray-700 text-white rounded p-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                >
+                                                    {LAYER_ACTIVATION_FUNCTIONS.map(af => <option key={af.value} value={af.value}>{af.name}</option>)}
+                                                </select>
+                                                <button
+                                                    onClick={() => onMoveNetworkLayer(layer.id, -1)}
+                                                    disabled={index === 0}
+                                                    className="p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+                                                    aria-label="Move layer up"
+                                                    type="button"
+                                                >
+                                                    ↑
+                                                </button>
+                                                <button
+                                                    onClick={() => onMoveNetworkLayer(layer.id, 1)}
+                                                    disabled={index === networkLayers.length - 1}
+                                                    className="p-1 text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+                                                    aria-label="Move layer down"
+                                                    type="button"
+                                                >
+                                                    ↓
+                                                </button>
+                                                <button
+                                                    onClick={() => onRemoveNetworkLayer(layer.id)}
+                                                    disabled={networkLayers.length <= 1}
+                                                    className="p-1 text-gray-400 hover:text-red-500 transition-colors disabled:opacity-30"
+                                                    aria-label="Remove layer"
+                                                    type="button"
+                                                >
+                                                    ✕
+                                                </button>
+                                            </div>
+                                            {layer.activation === 'custom' && (
+                                                <input
+                                                    type="text"
+                                                    value={layer.customFnStr}
+                                                    onChange={(e) => onUpdateNetworkLayer(layer.id, { customFnStr: e.target.value })}
+                                                    placeholder="e.g. x^2 - 1"
+                                                    className="w-full bg-gray-700 text-white rounded p-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                />
+                                            )}
+                                            <MatrixGrid
+                                                matrix={layer.matrix}
+                                                onMatrixChange={(next) => onUpdateNetworkLayer(layer.id, { matrix: next })}
+                                            />
+                                            <div>
+                                                <span className="text-xs text-gray-400 block mb-1">Bias b{index + 1}</span>
+                                                <div className="grid gap-2" style={gridColumns(layer.bias.length)}>
+                                                    {layer.bias.map((value, i) => (
+                                                        <NumberInput
+                                                            key={i}
+                                                            value={value}
+                                                            onChange={(v) => onUpdateNetworkLayer(layer.id, { bias: layer.bias.map((current, j) => (j === i ? v : current)) })}
+                                                            className="w-full"
+                                                        />
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {activePathMode === 'timeVarying' && (
+                            <div>
+                                <h2 className="text-lg font-semibold mb-2 text-gray-200">A(t)</h2>
+                                <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                                    <ExpressionGrid expressions={timeVaryingExpressions} onChange={onTimeVaryingExpressionsChange} />
+                                    <p className="text-xs text-gray-400">Entries are expressions in t. Vectors follow x(t) = Φ(t)v with Φ(0) = I.</p>
+                                    {transitionError && <p className="text-red-400 text-xs">{transitionError}</p>}
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {TRANSITION_INTEGRATOR_OPTIONS.map(option => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                onClick={() => onTransitionIntegratorChange(option.value)}
+                                                className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                    transitionIntegrator === option.value
+                                                        ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-400">
+                                        {TRANSITION_INTEGRATOR_OPTIONS.find(option => option.value === transitionIntegrator)?.description}
+                                    </p>
+                                    <div className="flex items-center justify-between">
+                                        <label className="text-sm font-medium text-gray-300">Step h</label>
+                                        <NumberInput
+                                            value={transitionStep}
+                                            onChange={(v) => onTransitionStepChange(v)}
+                                            step={0.005}
+                                            min={0.001}
+                                            max={0.5}
+                                            className="w-24"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {activePathMode === 'geodesic' && (
+                            <div>
+                                <h2 className="text-lg font-semibold mb-2 text-gray-200">Matrix B</h2>
+                                <div className="p-3 bg-gray-900/50 rounded-lg">
+                                    <div className="pb-3 border-b border-gray-700 space-y-3">
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={selectedPresetNameB}
+                                                onChange={(e) => onPresetBSelect(e.target.value)}
+                                                className="flex-1 bg-gray-700 text-white rounded p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                            >
+                                                {presetOptions.map(preset => (
+                                                    <option key={preset.name} value={preset.name}>
+                                                        {preset.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => onMatrixBChange(randomMatrix(dimension))}
+                                                className="bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-semibold px-3 py-2 rounded transition-colors"
                                                 type="button"
                                             >
-                                                <span className={`${linearEigenInterpolation ? 'translate-x-6' : 'translate-x-1'} inline-block w-4 h-4 transform bg-white rounded-full transition-transform`} />
+                                                Random
                                             </button>
                                         </div>
-                                        {normalizationWarning && (
-                                            <p className="text-xs text-amber-300 bg-amber-900/30 border border-amber-500/40 rounded px-3 py-2">
-                                                {normalizationWarning}
+                                        <div>
+                                            <span className="text-sm font-medium text-gray-300 block mb-2">Blend</span>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                {GEODESIC_BLEND_OPTIONS.map(option => (
+                                                    <button
+                                                        key={option.value}
+                                                        type="button"
+                                                        onClick={() => onGeodesicBlendChange(option.value)}
+                                                        className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                            geodesicBlend === option.value
+                                                                ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                        }`}
+                                                    >
+                                                        {option.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-gray-400 mt-1">
+                                                {GEODESIC_BLEND_OPTIONS.find(option => option.value === geodesicBlend)?.description}
                                             </p>
-                                        )}
+                                        </div>
                                     </div>
+                                    <MatrixGrid matrix={matrixB} onMatrixChange={onMatrixBChange} />
                                 </div>
-                                <div className="grid grid-cols-3 gap-2 pt-3">
-                                    {matrix.map((row, i) =>
-                                        row.map((val, j) => (
-                                            <NumberInput key={`${i}-${j}`} value={val} onChange={(v) => handleMatrixValueChange(i, j, v)} className="w-full" />
-                                        ))
+                            </div>
+                        )}
+
+                        {dimension > 3 && (
+                            <div>
+                                <h2 className="text-lg font-semibold mb-2 text-gray-200">Projection to 3D</h2>
+                                <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {PROJECTION_MODE_OPTIONS.map(option => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                onClick={() => onProjectionChange({ ...projection, mode: option.value })}
+                                                className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                    projection.mode === option.value
+                                                        ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-gray-400">
+                                        {PROJECTION_MODE_OPTIONS.find(option => option.value === projection.mode)?.description}
+                                    </p>
+                                    {projection.mode === 'axes' ? (
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {SCENE_AXES.map((axisName, sceneAxis) => (
+                                                <label key={axisName} className="text-xs text-gray-300 space-y-1">
+                                                    <span className="block">scene {axisName}</span>
+                                                    <select
+                                                        value={projection.axes[sceneAxis]}
+                                                        onChange={(e) => {
+                                                            const axes = [...projection.axes] as ProjectionConfig['axes'];
+                                                            axes[sceneAxis] = parseInt(e.target.value, 10);
+                                                            onProjectionChange({ ...projection, axes });
+                                                        }}
+                                                        className="w-full bg-gray-700 text-white rounded p-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                    >
+                                                        {Array.from({ length: dimension }, (_, coordinate) => (
+                                                            <option key={coordinate} value={coordinate}>x{coordinate + 1}</option>
+                                                        ))}
+                                                    </select>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <MatrixGrid
+                                            matrix={projection.matrix}
+                                            onMatrixChange={(next) => onProjectionChange({ ...projection, matrix: next })}
+                                        />
                                     )}
                                 </div>
                             </div>
-                        </div>
+                        )}
 
                         <div>
                             <div className="flex justify-between items-center mb-2">
@@ -603,6 +1889,171 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                             </div>
                         </div>
 
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h2 className="text-lg font-semibold text-gray-200">Shapes</h2>
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value=""
+                                        onChange={(e) => {
+                                            if (e.target.value) onAddShape(e.target.value as Exclude<ShapeKind, 'mesh'>);
+                                        }}
+                                        className="bg-gray-700 text-cyan-400 text-xs font-bold py-1 px-2 rounded focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                        aria-label="Add shape"
+                                    >
+                                        <option value="">+ ADD</option>
+                                        {(['cube', 'sphere', 'lattice'] as const).map(kind => (
+                                            <option key={kind} value={kind}>{SHAPE_LABELS[kind][dimension === 2 ? 'planar' : 'spatial']}</option>
+                                        ))}
+                                    </select>
+                                    <label className="bg-gray-700 hover:bg-gray-600 text-cyan-300 text-xs font-semibold py-1 px-2 rounded transition-colors duration-300 cursor-pointer">
+                                        OBJ/STL
+                                        <input
+                                            type="file"
+                                            accept=".obj,.stl"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                                const input = e.target;
+                                                const file = input.files?.[0];
+                                                if (!file) return;
+                                                file.arrayBuffer()
+                                                    .then(data => setShapeImportError(onImportShapeMesh(file.name, data)))
+                                                    .catch(() => setShapeImportError(`Could not read ${file.name}.`))
+                                                    .finally(() => { input.value = ''; });
+                                            }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+                            {shapeImportError && <p className="text-xs text-red-400 mb-2">{shapeImportError}</p>}
+                            {shapes.length > 0 && !followsMatrixPath && (
+                                <p className="text-xs text-amber-300 mb-2">Shapes follow A(t) along a matrix path and are hidden in the other dynamics modes.</p>
+                            )}
+                            <div className="space-y-2">
+                                {shapes.map(shape => (
+                                    <ShapeControls
+                                        key={shape.id}
+                                        shape={shape}
+                                        planar={dimension === 2}
+                                        onUpdateShape={onUpdateShape}
+                                        onRemoveShape={onRemoveShape}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h2 className="text-lg font-semibold text-gray-200">Point Cloud</h2>
+                                <label className="bg-gray-700 hover:bg-gray-600 text-cyan-400 text-xs font-bold py-1 px-2 rounded transition-colors duration-300 cursor-pointer">
+                                    {pointCloud ? 'REPLACE' : 'CSV/JSON'}
+                                    <input
+                                        type="file"
+                                        accept=".csv,.tsv,.txt,.json"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const input = e.target;
+                                            const file = input.files?.[0];
+                                            if (!file) return;
+                                            file.text()
+                                                .then(text => setPointCloudError(onImportPointCloud(file.name, text)))
+                                                .catch(() => setPointCloudError(`Could not read ${file.name}.`))
+                                                .finally(() => { input.value = ''; });
+                                        }}
+                                    />
+                                </label>
+                            </div>
+                            {pointCloudError && <p className="text-xs text-red-400 mb-2">{pointCloudError}</p>}
+                            {!pointCloud && !pointCloudError && (
+                                <p className="text-xs text-gray-400">
+                                    One point per row; numeric columns are coordinates and a label, class or text column sets the colors.
+                                </p>
+                            )}
+                            {pointCloud && (
+                                <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <span className="flex-grow text-sm text-gray-200 truncate">
+                                            {pointCloud.name} ({pointCloud.points.length.toLocaleString()} points)
+                                        </span>
+                                        <button
+                                            onClick={() => onPointCloudChange({ visible: !pointCloud.visible })}
+                                            className={`text-xs font-semibold py-1 px-2 rounded transition-colors ${pointCloud.visible ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-800 text-gray-500 hover:bg-gray-700'}`}
+                                        >
+                                            {pointCloud.visible ? 'Hide' : 'Show'}
+                                        </button>
+                                        <button onClick={onRemovePointCloud} className="text-xs text-red-400 hover:text-red-300" aria-label="Remove point cloud">
+                                            Remove
+                                        </button>
+                                    </div>
+                                    {pointCloud.columns.length !== dimension && (
+                                        <p className="text-xs text-gray-500">
+                                            {pointCloud.columns.length > dimension
+                                                ? `Using the first ${dimension} of ${pointCloud.columns.length} columns.`
+                                                : `Missing coordinates beyond ${pointCloud.columns.length} are zero.`}
+                                        </p>
+                                    )}
+                                    {!followsMatrixPath && (
+                                        <p className="text-xs text-amber-300">The cloud follows A(t) along a matrix path and is hidden in the other dynamics modes.</p>
+                                    )}
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {POINT_CLOUD_COLORING_OPTIONS.map(option => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                disabled={option.value === 'label' && !pointCloud.labels}
+                                                onClick={() => onPointCloudChange({ coloring: option.value })}
+                                                className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                                                    pointCloud.coloring === option.value
+                                                        ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                }`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center gap-3 text-sm text-gray-300">
+                                        {pointCloud.coloring === 'colormap' && (
+                                            <label className="flex items-center gap-2 flex-grow">
+                                                <span>By</span>
+                                                <select
+                                                    value={pointCloud.colormapColumn}
+                                                    onChange={(e) => onPointCloudChange({ colormapColumn: parseInt(e.target.value, 10) })}
+                                                    className="flex-grow bg-gray-700 text-white rounded p-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                >
+                                                    {pointCloud.columns.map((column, i) => (
+                                                        <option key={i} value={i}>{column}</option>
+                                                    ))}
+                                                </select>
+                                            </label>
+                                        )}
+                                        {pointCloud.coloring === 'solid' && (
+                                            <div className="relative w-6 h-6 rounded-md flex-shrink-0">
+                                                <div className="w-full h-full rounded-md" style={{ backgroundColor: pointCloud.color }} />
+                                                <input
+                                                    type="color"
+                                                    value={pointCloud.color}
+                                                    onChange={(e) => onPointCloudChange({ color: e.target.value })}
+                                                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                                                    aria-label="Change point cloud color"
+                                                />
+                                            </div>
+                                        )}
+                                        <label className="flex items-center gap-2 ml-auto">
+                                            <span>Size</span>
+                                            <NumberInput
+                                                value={pointCloud.pointSize}
+                                                onChange={v => onPointCloudChange({ pointSize: Math.max(0.005, v) })}
+                                                step={0.01}
+                                                min={0.005}
+                                                className="w-20"
+                                            />
+                                        </label>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
                         <div>
                             <h2 className="text-lg font-semibold mb-2 text-gray-200">
                                 Parameter t = {t.toFixed(getPrecisionSliderValue(tPrecision))}
@@ -660,10 +2111,47 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                 onChange={(e) => onPresetSelect(e.target.value)}
                                 className="w-full bg-gray-700 text-white rounded p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
                             >
-                                {PRESET_MATRICES.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                                {presetOptions.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
                             </select>
                         </div>
                         
+                        {fieldMode && (
+                        <div>
+                            <h2 className="text-lg font-semibold mb-2 text-gray-200">Vector Field</h2>
+                            <div className="space-y-3 bg-gray-900/50 p-3 rounded-lg">
+                                <select
+                                    value={fieldPresetName}
+                                    onChange={(e) => onFieldPresetSelect(e.target.value)}
+                                    className="w-full bg-gray-700 text-white rounded p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                >
+                                    {!VECTOR_FIELD_PRESETS.some(preset => preset.name === fieldPresetName) && (
+                                        <option value={fieldPresetName}>{fieldPresetName}</option>
+                                    )}
+                                    {VECTOR_FIELD_PRESETS.map(preset => (
+                                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                                    ))}
+                                </select>
+                                {fieldExpressions.map((expression, i) => (
+                                    <div key={i} className="flex items-center gap-2">
+                                        <span className="text-sm font-mono text-cyan-400 w-12 flex-shrink-0">{`d${vectorComponentName(i)}/dt`}</span>
+                                        <input
+                                            type="text"
+                                            value={expression}
+                                            onChange={(e) => onFieldExpressionsChange(fieldExpressions.map((current, j) => (j === i ? e.target.value : current)))}
+                                            className="w-full min-w-0 bg-gray-700 text-white rounded p-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                        />
+                                    </div>
+                                ))}
+                                <p className="text-xs text-gray-400">
+                                    Variables: {defaultVectorComponents(Math.min(dimension, 4)).join(', ')}, x1…x{dimension} and v = [x1, …, x{dimension}]. Other names become parameters.
+                                </p>
+                                {fieldError && <p className="text-red-400 text-xs">{fieldError}</p>}
+                                <ParameterSliders params={fieldParams} onChange={onFieldParamsChange} editableRange idPrefix="fieldParam" />
+                            </div>
+                        </div>
+                        )}
+
+                        {!networking && !fieldMode && (
                         <div>
                             <h2 className="text-lg font-semibold mb-2 text-gray-200">Activation Function</h2>
                             <div className="space-y-3 bg-gray-900/50 p-3 rounded-lg">
@@ -686,8 +2174,67 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                         {activationConfig.error && <p className="text-red-400 text-xs mt-2">{activationConfig.error}</p>}
                                     </div>
                                 )}
+                                {activationConfig.name === 'customVector' && (
+                                    <div className="space-y-2">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <button
+                                                type="button"
+                                                onClick={() => onActivationConfigChange({ ...activationConfig, vectorFnStrs: defaultVectorComponents(dimension) })}
+                                                className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                    singleVectorExpression
+                                                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                        : 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                }`}
+                                            >
+                                                Per component
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => onActivationConfigChange({ ...activationConfig, vectorFnStrs: ['v / (1 + norm(v))'] })}
+                                                className={`px-2 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                                    singleVectorExpression
+                                                        ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/40'
+                                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                                }`}
+                                            >
+                                                One expression
+                                            </button>
+                                        </div>
+                                        {activationConfig.vectorFnStrs.map((expression, i) => (
+                                            <div key={i} className="flex items-center gap-2">
+                                                <span className="text-sm font-mono text-cyan-400 w-10 flex-shrink-0">
+                                                    {singleVectorExpression ? 'f(v)' : `f${vectorComponentName(i)}`}
+                                                </span>
+                                                <input
+                                                    type="text"
+                                                    value={expression}
+                                                    onChange={(e) => onActivationConfigChange({
+                                                        ...activationConfig,
+                                                        vectorFnStrs: activationConfig.vectorFnStrs.map((current, j) => (j === i ? e.target.value : current))
+                                                    })}
+                                                    placeholder={singleVectorExpression ? 'e.g. map(v, exp) / sum(map(v, exp))' : `e.g. ${vectorComponentName(i)} * norm(v)`}
+                                                    className="w-full min-w-0 bg-gray-700 text-white rounded p-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                                />
+                                            </div>
+                                        ))}
+                                        <p className="text-xs text-gray-400">
+                                            Variables: {defaultVectorComponents(Math.min(dimension, 4)).join(', ')}, x1…x{dimension} and v = [x1, …, x{dimension}].
+                                        </p>
+                                        {activationConfig.error && <p className="text-red-400 text-xs">{activationConfig.error}</p>}
+                                    </div>
+                                )}
+                                <ParameterSliders
+                                    params={activationConfig.params}
+                                    onChange={(params) => onActivationConfigChange({ ...activationConfig, params })}
+                                    editableRange={!PARAMETERIZED_ACTIVATIONS[activationConfig.name]}
+                                    idPrefix="activationParam"
+                                />
+                                {activationConfig.name !== 'customVector' && !activationConfig.error && (
+                                    <ActivationPlot fn={(x) => activationConfig.currentFn([x])[0]} />
+                                )}
                             </div>
                         </div>
+                        )}
 
                          <div>
                             <h2 className="text-lg font-semibold mb-2 text-gray-200">Animation Config</h2>
@@ -767,7 +2314,9 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                         <div className="space-y-3">
                             {walls.length === 0 && (
                                 <p className="text-sm text-gray-400 bg-gray-900/40 border border-gray-700 rounded-lg p-4">
-                                    Add planes aligned to the global axes. Each wall reflects the plane defined by the chosen axis at the specified position.
+                                    {dimension === 2
+                                        ? 'Add lines aligned to the axes. Each wall marks the line x = c or y = c.'
+                                        : 'Add planes aligned to the global axes. Each wall reflects the plane defined by the chosen axis at the specified position.'}
                                 </p>
                             )}
                             {walls.map(wall => (
@@ -791,7 +2340,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                         >
                                             <option value="x">x</option>
                                             <option value="y">y</option>
-                                            <option value="z">z</option>
+                                            {dimension !== 2 && <option value="z">z</option>}
                                         </select>
                                     </div>
                                     <div className="flex items-center justify-between">
@@ -804,7 +2353,9 @@ const ControlsPanel: React.FC<ControlsPanelProps> = (props) => {
                                         />
                                     </div>
                                     <p className="text-xs text-gray-500">
-                                        {`Plane: ${wall.axis.toUpperCase()} = ${wall.position.toFixed(2)}`}
+                                        {dimension === 2 && wall.axis === 'z'
+                                            ? 'Z wall: hidden in 2D mode'
+                                            : `${dimension === 2 ? 'Line' : 'Plane'}: ${wall.axis.toUpperCase()} = ${wall.position.toFixed(2)}`}
                                     </p>
                                 </div>
                             ))}
@@ -0,0 +1,33 @@
+import React from 'react';
+import * as THREE from 'three';
+import { Html } from '@react-three/drei';
+import type { Vector, Vector3 } from '../types';
+import type { ShapeGeometry } from '../utils/shapes';
+import DeformedShape from './DeformedShape';
+import VectorArrow from './VectorArrow';
+
+interface CoordinateFrameProps {
+    grid: ShapeGeometry;
+    transform: (point: Vector) => Vector3;
+    /** Images of e1, e2, e3 as arrows from the image of the origin. */
+    basis: { origin: THREE.Vector3; direction: THREE.Vector3; label: string; color: string }[];
+}
+
+const GRID_COLOR = '#38bdf8';
+
+const CoordinateFrame: React.FC<CoordinateFrameProps> = ({ grid, transform, basis }) => (
+    <>
+        <DeformedShape geometry={grid} color={GRID_COLOR} transform={transform} edgeOpacity={0.45} />
+        {basis.map(axis => (
+            <group key={axis.label} position={axis.origin}>
+                {/* Collapsed images unmount rather than render an empty VectorArrow. */}
+                {axis.direction.length() >= 0.001 && <VectorArrow direction={axis.direction} color={axis.color} />}
+                <Html position={axis.direction.clone().multiplyScalar(1.1)} center style={{ pointerEvents: 'none' }}>
+                    <span className="font-mono text-xs whitespace-nowrap" style={{ color: axis.color }}>{axis.label}</span>
+                </Html>
+            </group>
+        ))}
+    </>
+);
+
+export default CoordinateFrame;
@@ -0,0 +1,61 @@
+import React, { useLayoutEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { Vector, Vector3 } from '../types';
+import type { ShapeGeometry } from '../utils/shapes';
+
+interface DeformedShapeProps {
+    geometry: ShapeGeometry;
+    color: string;
+    /** Maps a rest vertex to its current scene position. */
+    transform: (vertex: Vector) => Vector3;
+    edgeOpacity?: number;
+}
+
+const DeformedShape: React.FC<DeformedShapeProps> = ({ geometry, color, transform, edgeOpacity = 0.9 }) => {
+    // Faces and edges share one position buffer, rewritten in place whenever the transform changes.
+    const buffers = useMemo(() => {
+        const position = new THREE.BufferAttribute(new Float32Array(geometry.vertices.length * 3), 3);
+        position.setUsage(THREE.DynamicDrawUsage);
+        const faces = new THREE.BufferGeometry();
+        faces.setAttribute('position', position);
+        faces.setIndex(geometry.triangles);
+        const edges = new THREE.BufferGeometry();
+        edges.setAttribute('position', position);
+        edges.setIndex(geometry.edges);
+        return { position, faces, edges };
+    }, [geometry]);
+
+    useLayoutEffect(() => () => {
+        buffers.faces.dispose();
+        buffers.edges.dispose();
+    }, [buffers]);
+
+    useLayoutEffect(() => {
+        const { position, faces, edges } = buffers;
+        geometry.vertices.forEach((vertex, i) => {
+            const [x, y, z] = transform(vertex);
+            position.setXYZ(i, x, y, z);
+        });
+        position.needsUpdate = true;
+        if (geometry.triangles.length > 0) faces.computeVertexNormals();
+        faces.computeBoundingSphere();
+        edges.computeBoundingSphere();
+    }, [buffers, geometry, transform]);
+
+    return (
+        <>
+            {geometry.triangles.length > 0 && (
+                <mesh geometry={buffers.faces}>
+                    <meshStandardMaterial color={color} transparent opacity={0.35} side={THREE.DoubleSide} depthWrite={false} />
+                </mesh>
+            )}
+            {geometry.edges.length > 0 && (
+                <lineSegments geometry={buffers.edges}>
+                    <lineBasicMaterial color={color} transparent opacity={edgeOpacity} />
+                </lineSegments>
+            )}
+        </>
+    );
+};
+
+export default DeformedShape;
@@ -0,0 +1,105 @@
+import React, { useLayoutEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { Html } from '@react-three/drei';
+
+interface DeterminantVolumeProps {
+    /** Image of the origin. */
+    origin: THREE.Vector3;
+    /** Images of e1, e2, e3 relative to the origin; e3 is zero in 2D. */
+    edges: [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+    /** e1, e2, e3 themselves, for the reference cube. */
+    unitEdges: [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+    determinant: number | null;
+    /** 'area' in 2D, 'vol' in 3D; beyond 3D the solid is a projection and the label reads 'det'. */
+    label: string;
+}
+
+const POSITIVE_COLOR = '#22d3ee';
+const NEGATIVE_COLOR = '#f97316';
+
+// Corner k has bit j set when edge j is included, so corners differing in one bit share an edge.
+const FACE_INDICES = [
+    0, 1, 3, 0, 3, 2,
+    4, 6, 7, 4, 7, 5,
+    0, 4, 5, 0, 5, 1,
+    2, 3, 7, 2, 7, 6,
+    0, 2, 6, 0, 6, 4,
+    1, 5, 7, 1, 7, 3,
+];
+const EDGE_INDICES = Array.from({ length: 8 }, (_, corner) => [0, 1, 2]
+    .filter(bit => !(corner & (1 << bit)))
+    .flatMap(bit => [corner, corner | (1 << bit)])
+).flat();
+
+const writeCorners = (attribute: THREE.BufferAttribute, origin: THREE.Vector3, edges: THREE.Vector3[]) => {
+    const corner = new THREE.Vector3();
+    for (let k = 0; k < 8; k++) {
+        corner.copy(origin);
+        edges.forEach((edge, bit) => {
+            if (k & (1 << bit)) corner.add(edge);
+        });
+        attribute.setXYZ(k, corner.x, corner.y, corner.z);
+    }
+    attribute.needsUpdate = true;
+};
+
+const createBoxGeometry = () => {
+    const position = new THREE.BufferAttribute(new Float32Array(24), 3);
+    const faces = new THREE.BufferGeometry();
+    faces.setAttribute('position', position);
+    faces.setIndex(FACE_INDICES);
+    const edges = new THREE.BufferGeometry();
+    edges.setAttribute('position', position);
+    edges.setIndex(EDGE_INDICES);
+    return { position, faces, edges };
+};
+
+const DeterminantVolume: React.FC<DeterminantVolumeProps> = ({ origin, edges, unitEdges, determinant, label }) => {
+    const solid = useMemo(createBoxGeometry, []);
+    const reference = useMemo(createBoxGeometry, []);
+
+    useLayoutEffect(() => () => {
+        [solid, reference].forEach(box => {
+            box.faces.dispose();
+            box.edges.dispose();
+        });
+    }, [solid, reference]);
+
+    useLayoutEffect(() => {
+        writeCorners(solid.position, origin, edges);
+        solid.faces.computeBoundingSphere();
+        solid.edges.computeBoundingSphere();
+    }, [solid, origin, edges]);
+
+    useLayoutEffect(() => {
+        writeCorners(reference.position, new THREE.Vector3(), unitEdges);
+        reference.edges.computeBoundingSphere();
+    }, [reference, unitEdges]);
+
+    const color = determinant !== null && determinant < 0 ? NEGATIVE_COLOR : POSITIVE_COLOR;
+    const center = useMemo(
+        () => edges.reduce((sum, edge) => sum.addScaledVector(edge, 0.5), origin.clone()),
+        [origin, edges]
+    );
+
+    return (
+        <>
+            <lineSegments geometry={reference.edges}>
+                <lineBasicMaterial color="#e5e7eb" transparent opacity={0.2} />
+            </lineSegments>
+            <mesh geometry={solid.faces}>
+                <meshBasicMaterial color={color} transparent opacity={0.25} side={THREE.DoubleSide} depthWrite={false} />
+            </mesh>
+            <lineSegments geometry={solid.edges}>
+                <lineBasicMaterial color={color} />
+            </lineSegments>
+            <Html position={center} center style={{ pointerEvents: 'none' }}>
+                <span className="font-mono text-xs whitespace-nowrap px-1 rounded bg-gray-900/70" style={{ color }}>
+                    {label} = {determinant === null ? '—' : determinant.toFixed(3)}
+                </span>
+            </Html>
+        </>
+    );
+};
+
+export default DeterminantVolume;
@@ -0,0 +1,81 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import type { FieldGlyph } from '../utils/mathUtils';
+import type { Vector3 } from '../types';
+
+interface FieldOverlayProps {
+    glyphs: FieldGlyph[];
+    streamlines: Vector3[][];
+    /** Lattice spacing; the longest glyph fills it. */
+    spacing: number;
+    scale: number;
+}
+
+const GLYPH_RADIUS = 0.035;
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Unit-height cone standing on the origin, so scaling y sets the glyph length.
+const createGlyphGeometry = () => new THREE.ConeGeometry(GLYPH_RADIUS, 1, 6).translate(0, 0.5, 0);
+
+const FieldOverlay: React.FC<FieldOverlayProps> = ({ glyphs, streamlines, spacing, scale }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const geometry = useMemo(createGlyphGeometry, []);
+
+    useLayoutEffect(() => () => geometry.dispose(), [geometry]);
+
+    // Glyphs are colored from slow (blue) to fast (red) relative to the fastest sample.
+    useLayoutEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const dummy = new THREE.Object3D();
+        const color = new THREE.Color();
+        const direction = new THREE.Vector3();
+        const maxSpeed = glyphs.reduce((max, glyph) => Math.max(max, Math.hypot(...glyph.velocity)), 0) || 1;
+        glyphs.forEach((glyph, index) => {
+            direction.set(...glyph.velocity);
+            const speed = direction.length();
+            dummy.position.set(...glyph.position);
+            dummy.quaternion.setFromUnitVectors(UP, speed > 0 ? direction.divideScalar(speed) : UP);
+            dummy.scale.set(1, Math.max(Math.min(speed * scale, spacing), 1e-3), 1);
+            dummy.updateMatrix();
+            mesh.setMatrixAt(index, dummy.matrix);
+            mesh.setColorAt(index, color.setHSL(0.66 * (1 - speed / maxSpeed), 0.8, 0.55));
+        });
+        mesh.count = glyphs.length;
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }, [glyphs, spacing, scale]);
+
+    // All streamlines share one buffer of line segments.
+    const streamlineGeometry = useMemo(() => {
+        const positions: number[] = [];
+        streamlines.forEach(line => {
+            for (let i = 1; i < line.length; i++) {
+                positions.push(...line[i - 1], ...line[i]);
+            }
+        });
+        const buffer = new THREE.BufferGeometry();
+        buffer.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        return buffer;
+    }, [streamlines]);
+
+    useLayoutEffect(() => () => streamlineGeometry.dispose(), [streamlineGeometry]);
+
+    return (
+        <>
+            {glyphs.length > 0 && (
+                // Remounted when the glyph count changes, since the instance buffer has a fixed capacity.
+                <instancedMesh key={glyphs.length} ref={meshRef} args={[geometry, undefined, glyphs.length]}>
+                    <meshBasicMaterial transparent opacity={0.85} />
+                </instancedMesh>
+            )}
+            {streamlines.length > 0 && (
+                <lineSegments geometry={streamlineGeometry}>
+                    <lineBasicMaterial color="#94a3b8" transparent opacity={0.55} />
+                </lineSegments>
+            )}
+        </>
+    );
+};
+
+export default FieldOverlay;
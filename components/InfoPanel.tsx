@@ -1,9 +1,10 @@
 import React from 'react';
-import type { Matrix3, Vector3, Wall } from '../types';
+import type { Matrix, Vector, Wall, ActivationParameter, OdeField, OdeSolver, EvaluationMode, BranchPolicy, PathMode, GeodesicBlend } from '../types';
+import { EVALUATION_METHOD_LABELS, STABILITY_LABELS, type EvaluationMethod, type StabilityClassification, type SingularValueDecomposition, type OrbitCycle, type LayerTrace, type LayerPhase } from '../utils/mathUtils';
 
 interface InfoPanelProps {
-    baseMatrix: Matrix3;
-    effectiveMatrix: Matrix3 | null;
+    baseMatrix: Matrix;
+    effectiveMatrix: Matrix | null;
     matrixScalar: number;
     matrixExponent: number;
     normalizeRequested: boolean;
@@ -15,28 +16,68 @@ interface InfoPanelProps {
     wallContactCounts: Record<number, number>;
     eigenvalues: { re: number; im: number }[] | null;
     eigenvaluesAtT: { re: number; im: number }[] | null;
-    matrixAt: Matrix3 | null;
+    matrixAt: Matrix | null;
+    evaluationMethod: EvaluationMethod | null;
+    evaluationMode: EvaluationMode;
+    branchPolicy: BranchPolicy;
+    pathMode: PathMode;
+    geodesicBlend: GeodesicBlend;
+    targetMatrix: Matrix;
+    chainPosition: { index: number; localT: number; count: number } | null;
+    /** Translation b when the affine map x ↦ Ax + b is active. */
+    translation: Vector | null;
+    /** Orbit of the first visible vector in iteration mode. */
+    iteration: {
+        step: number;
+        steps: number;
+        point: Vector;
+        diverged: boolean;
+        cycle: OrbitCycle | null;
+        fixedPoint: Vector | null;
+    } | null;
+    /** Layer position at t and the forward pass of the first visible vector in network mode. */
+    network: { index: number; phase: LayerPhase; localT: number; layers: LayerTrace[] } | null;
+    /** Integrator state at t for the first visible vector; `field` is null for a typed vector field. */
+    ode: {
+        field: OdeField | null;
+        solver: OdeSolver;
+        point: Vector;
+        jacobian: Matrix | null;
+        jacobianEigenvalues: { re: number; im: number }[] | null;
+        stepSize: number | null;
+        errorEstimate: number | null;
+        maxError: number | null;
+    } | null;
+    /** A(t) at the current t when the path integrates x' = A(t)x. */
+    timeVaryingMatrix: Matrix | null;
+    /** Phase-portrait type of the effective A, when A alone drives the motion. */
+    stability: StabilityClassification | null;
+    imaginaryResidual: { max: number; maxAt: number | null } | null;
     determinantAtT: number | null;
-    vectorV: Vector3 | null;
-    rawTransformedV: Vector3 | null;
-    transformedV: Vector3 | null;
+    /** SVD of the linear part of the transform at t. */
+    svdAtT: SingularValueDecomposition | null;
+    vectorV: Vector | null;
+    rawTransformedV: Vector | null;
+    transformedV: Vector | null;
     activationFnName: string;
     customActivationFnStr: string;
+    vectorActivationStrs: string[];
+    activationParams: ActivationParameter[];
 }
 
 const formatNum = (n: number | undefined) => (n !== undefined && isFinite(n) ? n.toFixed(2).padStart(7, ' ') : '  -    ');
 
-const formatVector = (v: Vector3 | null): string => {
-    if (!v) return `[${formatNum(undefined)},${formatNum(undefined)},${formatNum(undefined)}]`;
-    return `[${formatNum(v[0])},${formatNum(v[1])},${formatNum(v[2])}]`;
+const formatVector = (v: Vector | null, size = 3): string => {
+    if (!v) return `[${Array.from({ length: size }, () => formatNum(undefined)).join(',')}]`;
+    return `[${v.map(formatNum).join(',')}]`;
 };
 
-const formatMatrix = (m: Matrix3 | null): string => {
+const formatMatrix = (m: Matrix | null, size = 3): string => {
     if (!m) {
-         const loadingRow = `| ${formatVector(null)} |`;
-         return `${loadingRow}\n${loadingRow}\n${loadingRow}`;
+         const loadingRow = `| ${formatVector(null, size)} |`;
+         return Array.from({ length: size }, () => loadingRow).join('\n');
     }
-    return m.map(row => `|${formatNum(row[0])},${formatNum(row[1])},${formatNum(row[2])}|`).join('\n');
+    return m.map(row => `|${row.map(formatNum).join(',')}|`).join('\n');
 };
 
 const formatScalar = (value: number): string => {
@@ -49,6 +90,11 @@ const formatDeterminant = (value: number | null): string => {
     return value.toFixed(3);
 };
 
+const formatExponential = (value: number | null): string => {
+    if (value === null || !Number.isFinite(value)) return '—';
+    return value.toExponential(2);
+};
+
 const formatEigenvalue = (value: { re: number; im: number }): string => {
     const hasReal = Number.isFinite(value.re);
     const hasImag = Number.isFinite(value.im) && Math.abs(value.im) > 1e-6;
@@ -78,16 +124,67 @@ const InfoPanel: React.FC<InfoPanelProps> = ({
     eigenvalues,
     eigenvaluesAtT,
     matrixAt,
+    evaluationMethod,
+    evaluationMode,
+    branchPolicy,
+    pathMode,
+    geodesicBlend,
+    targetMatrix,
+    chainPosition,
+    translation,
+    iteration,
+    network,
+    ode,
+    timeVaryingMatrix,
+    stability,
+    imaginaryResidual,
     determinantAtT,
+    svdAtT,
     vectorV,
     rawTransformedV,
     transformedV,
     activationFnName,
-    customActivationFnStr
+    customActivationFnStr,
+    vectorActivationStrs,
+    activationParams
 }) => {
-    const activationDisplay = activationFnName.toLowerCase() === 'custom' 
-        ? `f(x) = ${customActivationFnStr || 'x'}`
-        : `f(x) = ${activationFnName}`;
+    const activationDisplay = activationFnName === 'customVector'
+        ? vectorActivationStrs.length === 1
+            ? `f(v) = ${vectorActivationStrs[0] || 'v'}`
+            : `f(v) = (${vectorActivationStrs.join(', ')})`
+        : activationFnName.toLowerCase() === 'custom'
+            ? `f(x) = ${customActivationFnStr || 'x'}`
+            : `f(x) = ${activationFnName}`;
+
+    // e^{tA} replaces A^t everywhere when the continuous flow is shown;
+    // in affine mode the homogeneous matrix H = [A b; 0 1] takes the place of A.
+    const base = translation ? 'H' : 'A';
+    const powerLabel = evaluationMode === 'flow'
+        ? <>e<sup>t{base}</sup></>
+        : evaluationMode === 'polar'
+            ? <>R<sub>t</sub>S<sub>t</sub></>
+            : <>{base}<sup>t</sup></>;
+    const isGeodesic = pathMode === 'geodesic';
+    const isChain = pathMode === 'chain';
+    const isTimeVarying = pathMode === 'timeVarying';
+    const transformLabel = isChain
+        ? <>C(t)</>
+        : isTimeVarying
+            ? <>Φ(t)</>
+        : !isGeodesic
+            ? powerLabel
+            : geodesicBlend === 'logEuclidean'
+                ? <>γ(t)</>
+                : <>A(A<sup>-1</sup>B)<sup>t</sup></>;
+    const baseEigenLabel = isChain
+        ? <>M<sub>N</sub>⋯M<sub>1</sub></>
+        : isGeodesic
+            ? geodesicBlend === 'logEuclidean'
+                ? 'log B − log A'
+                : <>A<sup>-1</sup>B</>
+            : isTimeVarying
+                ? 'A(0)'
+                : base;
 
     const normalizationStatus = normalizeApplied
         ? `on (det → ${formatDeterminant(determinantAfter)})`
@@ -97,6 +194,19 @@ const InfoPanel: React.FC<InfoPanelProps> = ({
                 ? `off (det ≈ ${formatDeterminant(determinantBefore)}; unavailable)`
                 : 'off';
 
+    // Iteration and network modes have no single matrix at t, so the path readouts make way for their own.
+    const pathView = !iteration && !network && !ode;
+
+    const orbitSummary = !iteration
+        ? ''
+        : iteration.diverged
+            ? 'diverges (|x| > 1e6)'
+            : !iteration.cycle
+                ? 'no fixed point or cycle (period ≤ 8) yet'
+                : iteration.cycle.period === 1
+                    ? `fixed point from k = ${iteration.cycle.since}`
+                    : `${iteration.cycle.period}-cycle from k = ${iteration.cycle.since}`;
+
     const wallsSummary = walls.length === 0
         ? 'none'
         : walls.map(wall => {
@@ -121,16 +231,106 @@ const InfoPanel: React.FC<InfoPanelProps> = ({
             </div>
             <div className="mb-3">
                 <p className="text-cyan-400">A (effective):</p>
-                <pre className="text-gray-300">{formatMatrix(effectiveMatrix)}</pre>
+                <pre className="text-gray-300">{formatMatrix(effectiveMatrix, baseMatrix.length)}</pre>
             </div>
+            {isChain && chainPosition && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">Chain:</p>
+                    <p className="text-gray-300">segment: M{chainPosition.index + 1} of {chainPosition.count}</p>
+                    <p className="text-gray-300">τ: {formatScalar(chainPosition.localT)}</p>
+                    <p className="text-gray-500">C(t) = M<sub>k</sub><sup>τ</sup>M<sub>k-1</sub>⋯M<sub>1</sub></p>
+                </div>
+            )}
+            {isTimeVarying && pathView && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">A(t):</p>
+                    <pre className="text-gray-300">{formatMatrix(timeVaryingMatrix, baseMatrix.length)}</pre>
+                    <p className="text-gray-500">Φ' = A(t)Φ, Φ(0) = I</p>
+                </div>
+            )}
+            {translation && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">b (translation):</p>
+                    <pre className="text-gray-300">{formatVector(translation)}</pre>
+                    <p className="text-gray-500">H = [A b; 0 1] (homogeneous)</p>
+                </div>
+            )}
+            {iteration && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">Iteration:</p>
+                    <p className="text-gray-300">k: {iteration.step} of {iteration.steps}</p>
+                    <pre className="text-gray-300">x<sub>k</sub> = {formatVector(iteration.point)}</pre>
+                    <p className="text-gray-300 whitespace-pre-wrap">orbit: {orbitSummary}</p>
+                    {iteration.cycle && (
+                        <pre className="text-gray-300">x* ≈ {formatVector(iteration.cycle.point)}</pre>
+                    )}
+                    {iteration.fixedPoint && (
+                        <pre className="text-gray-500">(I-A)<sup>-1</sup>b = {formatVector(iteration.fixedPoint)}</pre>
+                    )}
+                    <p className="text-gray-500">x<sub>k+1</sub> = f(A x<sub>k</sub> + b)</p>
+                </div>
+            )}
+            {network && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">Network:</p>
+                    <p className="text-gray-300">
+                        layer: L{network.index + 1} of {network.layers.length} • {network.phase === 'linear' ? 'Wˢx + s·b' : 'z → f(z)'} • s: {formatScalar(network.localT)}
+                    </p>
+                    {network.layers.map((layer, index) => (
+                        <pre key={index} className={index === network.index ? 'text-gray-100' : 'text-gray-500'}>
+                            {`z${index + 1} = ${formatVector(layer.preActivation)}\na${index + 1} = ${formatVector(layer.output)}`}
+                        </pre>
+                    ))}
+                </div>
+            )}
+            {ode && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">{ode.field ? 'Neural ODE:' : 'Vector field:'}</p>
+                    <p className="text-gray-300">{ode.field === null ? "x' = F(x)" : ode.field === 'leaky' ? "x' = f(Ax) − x" : "x' = f(Ax)"}</p>
+                    <pre className="text-gray-300">x(t) = {formatVector(ode.point)}</pre>
+                    <p className="text-gray-300">solver: {ode.solver === 'rk4' ? 'RK4 (fixed step)' : 'RK45 (Dormand–Prince)'}</p>
+                    <p className="text-gray-300">h: {formatExponential(ode.stepSize)}</p>
+                    <p className="text-gray-300">local error ≈ {formatExponential(ode.errorEstimate)}</p>
+                    <p className="text-gray-500">max over path: {formatExponential(ode.maxError)}</p>
+                    {ode.jacobian && (
+                        <>
+                            <p className="text-cyan-400">Jacobian at x(t):</p>
+                            <pre className="text-gray-300">{formatMatrix(ode.jacobian, ode.jacobian.length)}</pre>
+                            <pre className="text-gray-300 whitespace-pre-wrap">
+                                {ode.jacobianEigenvalues && ode.jacobianEigenvalues.length > 0
+                                    ? ode.jacobianEigenvalues.map((value, index) => `λ${index + 1}: ${formatEigenvalue(value)}`).join('\n')
+                                    : 'Eigenvalues unavailable'}
+                            </pre>
+                        </>
+                    )}
+                </div>
+            )}
+            {isGeodesic && pathView && (
+                <div className="mb-3">
+                    <p className="text-cyan-400">B (target):</p>
+                    <pre className="text-gray-300">{formatMatrix(targetMatrix)}</pre>
+                </div>
+            )}
             <div className="mb-3">
-                <p className="text-cyan-400">Eigenvalues (A):</p>
+                <p className="text-cyan-400">Eigenvalues ({baseEigenLabel}):</p>
                 <pre className="text-gray-300 whitespace-pre-wrap">{eigenvaluesSummary}</pre>
             </div>
+            {pathView && (
             <div className="mb-3">
-                <p className="text-cyan-400">Eigenvalues (A<sup>t</sup>):</p>
+                <p className="text-cyan-400">Eigenvalues ({transformLabel}):</p>
                 <pre className="text-gray-300 whitespace-pre-wrap">{eigenvaluesAtTSummary}</pre>
             </div>
+            )}
+            {stability && (
+                <div className="mb-3 space-y-1 max-w-xs">
+                    <p className="text-cyan-400">Stability:</p>
+                    <p className="text-gray-300">flow x' = Ax: {STABILITY_LABELS[stability.flow.kind]}</p>
+                    <p className="text-gray-500 whitespace-normal">{stability.flow.description}</p>
+                    <p className="text-gray-300">map x<sub>k+1</sub> = Ax<sub>k</sub>: {STABILITY_LABELS[stability.map.kind]}</p>
+                    <p className="text-gray-500 whitespace-normal">{stability.map.description}</p>
+                    <p className="text-gray-300">ρ(A): {formatDeterminant(stability.spectralRadius)} • tr: {formatDeterminant(stability.trace)} • det: {formatDeterminant(stability.determinant)}</p>
+                </div>
+            )}
             <div className="mb-3 space-y-1">
                 <p className="text-cyan-400">Adjustments:</p>
                 <p className="text-gray-300">scalar: {formatScalar(matrixScalar)}</p>
@@ -145,26 +345,49 @@ const InfoPanel: React.FC<InfoPanelProps> = ({
                 <p className="text-cyan-400">Walls:</p>
                 <pre className="text-gray-300 whitespace-pre-wrap">{wallsSummary}</pre>
             </div>
+            {pathView && (
+            <>
             <div className="mb-3">
-                <p className="text-cyan-400">A<sup>t</sup>:</p>
-                <pre className="text-gray-300">{formatMatrix(matrixAt)}</pre>
-                <p className="text-gray-500 mt-1">det(A<sup>t</sup>): {formatDeterminant(determinantAtT)}</p>
+                <p className="text-cyan-400">{transformLabel}:</p>
+                <pre className="text-gray-300">{formatMatrix(matrixAt, baseMatrix.length + (translation ? 1 : 0))}</pre>
+                <p className="text-gray-500 mt-1">det({transformLabel}): {formatDeterminant(determinantAtT)}</p>
+                <p className="text-gray-500">method: {evaluationMethod ? EVALUATION_METHOD_LABELS[evaluationMethod] : '—'}</p>
+                {imaginaryResidual && (
+                    <p className="text-amber-300 whitespace-pre-wrap">
+                        {`⚠ ${branchPolicy === 'refuse' ? 'complex' : 'discarded'} Im part: max ${imaginaryResidual.max.toExponential(2)}`}
+                        {imaginaryResidual.maxAt !== null ? ` at t = ${imaginaryResidual.maxAt.toFixed(2)}` : ''}
+                        {`\n  (branch: ${branchPolicy}; path is not a real matrix power)`}
+                    </p>
+                )}
             </div>
+            {svdAtT && (
+                <div className="mb-3 space-y-1">
+                    <p className="text-cyan-400">Singular values ({transformLabel}):</p>
+                    <pre className="text-gray-300 whitespace-pre-wrap">{svdAtT.values.map(value => `σ = ${formatDeterminant(value)}`).join('\n')}</pre>
+                    <p className="text-gray-500">‖{transformLabel}‖₂ = σ₁: {formatDeterminant(svdAtT.operatorNorm)}</p>
+                    <p className="text-gray-500">κ = σ₁/σₙ: {Number.isFinite(svdAtT.conditionNumber) ? formatDeterminant(svdAtT.conditionNumber) : '∞ (singular)'}</p>
+                </div>
+            )}
             <div className="mb-3">
                 <p className="text-cyan-400">v (first visible):</p>
                 <pre className="text-gray-300">{formatVector(vectorV)}</pre>
             </div>
             <div className="mb-3">
-                <p className="text-cyan-400">A<sup>t</sup>v:</p>
-                <pre className="text-gray-300">{formatVector(rawTransformedV)}</pre>
+                <p className="text-cyan-400">{transformLabel}v:</p>
+                <pre className="text-gray-300">{formatVector(rawTransformedV, baseMatrix.length)}</pre>
             </div>
              <div className="mb-3">
-                <p className="text-cyan-400">f(A<sup>t</sup>v):</p>
-                <pre className="text-gray-300">{formatVector(transformedV)}</pre>
+                <p className="text-cyan-400">f({transformLabel}v):</p>
+                <pre className="text-gray-300">{formatVector(transformedV, baseMatrix.length)}</pre>
             </div>
+            </>
+            )}
             <div>
                  <p className="text-cyan-400">Activation:</p>
                  <pre className="text-gray-300">{activationDisplay}</pre>
+                 {activationParams.length > 0 && (
+                     <pre className="text-gray-500">{activationParams.map(param => `${param.name} = ${formatScalar(param.value)}`).join('\n')}</pre>
+                 )}
             </div>
         </div>
     );
@@ -0,0 +1,46 @@
+import React, { useLayoutEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { Vector, Vector3 } from '../types';
+
+interface PointCloudLayerProps {
+    /** Rest points in N-space. */
+    points: Vector[];
+    colors: Float32Array;
+    size: number;
+    transform: (point: Vector) => Vector3;
+}
+
+// One BufferGeometry for the whole cloud; positions are rewritten in place as t changes.
+const PointCloudLayer: React.FC<PointCloudLayerProps> = ({ points, colors, size, transform }) => {
+    const geometry = useMemo(() => {
+        const buffer = new THREE.BufferGeometry();
+        const position = new THREE.BufferAttribute(new Float32Array(points.length * 3), 3);
+        position.setUsage(THREE.DynamicDrawUsage);
+        buffer.setAttribute('position', position);
+        return buffer;
+    }, [points]);
+
+    useLayoutEffect(() => () => geometry.dispose(), [geometry]);
+
+    useLayoutEffect(() => {
+        geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    }, [geometry, colors]);
+
+    useLayoutEffect(() => {
+        const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+        points.forEach((point, i) => {
+            const [x, y, z] = transform(point);
+            position.setXYZ(i, x, y, z);
+        });
+        position.needsUpdate = true;
+        geometry.computeBoundingSphere();
+    }, [geometry, points, transform]);
+
+    return (
+        <points geometry={geometry}>
+            <pointsMaterial size={size} vertexColors sizeAttenuation transparent opacity={0.9} />
+        </points>
+    );
+};
+
+export default PointCloudLayer;
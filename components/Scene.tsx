@@ -1,11 +1,19 @@
 import React, { useMemo, useRef, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Grid } from '@react-three/drei';
+import { OrbitControls, Grid, Line, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import VectorArrow from './VectorArrow';
 import TracedPath from './TracedPath';
 import VectorDot from './VectorDot';
-import type { Wall, FadingPathStyle } from '../types';
+import FieldOverlay from './FieldOverlay';
+import DeformedShape from './DeformedShape';
+import PointCloudLayer from './PointCloudLayer';
+import DeterminantVolume from './DeterminantVolume';
+import SingularEllipsoid from './SingularEllipsoid';
+import CoordinateFrame from './CoordinateFrame';
+import type { Wall, FadingPathStyle, Vector, Vector3 } from '../types';
+import type { ShapeGeometry } from '../utils/shapes';
+import type { FieldGlyph } from '../utils/mathUtils';
 
 interface SceneObject {
     id: number;
@@ -14,6 +22,7 @@ interface SceneObject {
     finalVector: THREE.Vector3 | null;
     interpolatedVector: THREE.Vector3 | null;
     path: THREE.Vector3[];
+    segmentBoundaries: THREE.Vector3[];
     contacts: {
         wallId: number;
         axis: Wall['axis'];
@@ -33,8 +42,47 @@ interface SceneProps {
    showStartMarkers: boolean;
    showEndMarkers: boolean;
    dynamicFadingPath: boolean;
+   /** 2D mode: orthographic top-down view of the xy-plane, with walls drawn as lines. */
+   planar?: boolean;
+   /** Affine mode: the image of the origin at the start, at t, and at the end of the range. */
+   originMarkers?: {
+       initial: THREE.Vector3 | null;
+       current: THREE.Vector3 | null;
+       final: THREE.Vector3 | null;
+   } | null;
+   /** Unit eigenvector lines and the orientation of each complex pair's invariant plane, in scene coordinates. */
+   eigenOverlay?: {
+       lines: { direction: THREE.Vector3; label: string }[];
+       planes: { quaternion: THREE.Quaternion; label: string }[];
+   } | null;
+   /** Sampled velocity glyphs and streamlines, in scene coordinates. */
+   fieldOverlay?: { glyphs: FieldGlyph[]; streamlines: Vector3[][]; spacing: number; scale: number } | null;
+   shapes?: { id: number; color: string; geometry: ShapeGeometry }[];
+   pointTransform?: ((vertex: Vector) => Vector3) | null;
+   /** Rest points and per-point colors of an imported cloud, moved by pointTransform. */
+   pointCloud?: { points: Vector[]; colors: Float32Array; size: number } | null;
+   determinantVolume?: React.ComponentProps<typeof DeterminantVolume> | null;
+   singularEllipsoid?: React.ComponentProps<typeof SingularEllipsoid> | null;
+   coordinateFrame?: React.ComponentProps<typeof CoordinateFrame> | null;
 }
 
+const EIGEN_COLORS = ['#f472b6', '#a78bfa', '#34d399', '#fb923c', '#60a5fa', '#facc15'];
+const EIGEN_LABEL_DISTANCE = 4.5;
+const EIGEN_DISK_RADIUS = 4;
+
+const EigenLabel: React.FC<{ position: THREE.Vector3; color: string; text: string }> = ({ position, color, text }) => (
+    <Html position={position} center style={{ pointerEvents: 'none' }}>
+        <span className="font-mono text-xs whitespace-nowrap" style={{ color }}>{text}</span>
+    </Html>
+);
+
+const OriginMarker: React.FC<{ position: THREE.Vector3; color: string; opacity?: number }> = ({ position, color, opacity = 1 }) => (
+    <mesh position={position}>
+        <octahedronGeometry args={[0.14, 0]} />
+        <meshBasicMaterial color={color} wireframe transparent={opacity < 1} opacity={opacity} />
+    </mesh>
+);
+
 const Scene: React.FC<SceneProps> = React.memo(({
     sceneData,
     walls,
@@ -44,7 +92,17 @@ const Scene: React.FC<SceneProps> = React.memo(({
     fadingPathStyle,
     showStartMarkers,
     showEndMarkers,
-    dynamicFadingPath
+    dynamicFadingPath,
+    planar = false,
+    originMarkers = null,
+    eigenOverlay = null,
+    fieldOverlay = null,
+    shapes = [],
+    pointTransform = null,
+    pointCloud = null,
+    determinantVolume = null,
+    singularEllipsoid = null,
+    coordinateFrame = null
 }) => {
     const prevSceneDataRef = useRef<SceneProps['sceneData']>(sceneData);
     const prevWallsRef = useRef<Wall[]>(walls);
@@ -76,6 +134,14 @@ const Scene: React.FC<SceneProps> = React.memo(({
 
     const planeSize = 40;
 
+    // x = c and y = c walls as line segments in the xy-plane
+    const getWallLine = (axis: Wall['axis'], position: number): [number, number, number][] => {
+        const half = planeSize / 2;
+        return axis === 'x'
+            ? [[position, -half, 0], [position, half, 0]]
+            : [[-half, position, 0], [half, position, 0]];
+    };
+
     const getPlaneTransform = (axis: Wall['axis'], position: number) => {
         switch (axis) {
             case 'x':
@@ -96,7 +162,12 @@ const Scene: React.FC<SceneProps> = React.memo(({
     );
 
     return (
-        <Canvas camera={{ position: [5, 5, 5], fov: 50 }}>
+        <Canvas
+            // The camera type is fixed when the canvas mounts, so switching modes remounts it.
+            key={planar ? 'planar' : 'spatial'}
+            orthographic={planar}
+            camera={planar ? { position: [0, 0, 20], zoom: 60, up: [0, 1, 0] } : { position: [5, 5, 5], fov: 50 }}
+        >
             {/* @ts-ignore */}
             <color attach="background" args={['#111827']} />
             {/* @ts-ignore */}
@@ -104,11 +175,25 @@ const Scene: React.FC<SceneProps> = React.memo(({
             {/* @ts-ignore */}
             <pointLight position={[10, 10, 10]} intensity={1} />
             
-            <Grid args={[20, 20]} infiniteGrid fadeDistance={25} fadeStrength={1} />
-            {/* @ts-ignore */}
-            <axesHelper args={[5]} />
+            {planar ? (
+                <>
+                    <Grid args={[20, 20]} rotation={[Math.PI / 2, 0, 0]} infiniteGrid fadeDistance={60} fadeStrength={1} />
+                    <Line points={[[-planeSize / 2, 0, 0], [planeSize / 2, 0, 0]]} color="#f87171" lineWidth={1.5} />
+                    <Line points={[[0, -planeSize / 2, 0], [0, planeSize / 2, 0]]} color="#4ade80" lineWidth={1.5} />
+                </>
+            ) : (
+                <>
+                    <Grid args={[20, 20]} infiniteGrid fadeDistance={25} fadeStrength={1} />
+                    {/* @ts-ignore */}
+                    <axesHelper args={[5]} />
+                </>
+            )}
+
+            {planar && memoizedWalls.map(wall => (
+                <Line key={wall.id} points={getWallLine(wall.axis, wall.position)} color="#94a3b8" lineWidth={2} dashed dashSize={0.3} gapSize={0.15} />
+            ))}
 
-            {memoizedWalls.map(wall => {
+            {!planar && memoizedWalls.map(wall => {
                 const { position, rotation } = getPlaneTransform(wall.axis, wall.position);
                 return (
                     <mesh key={wall.id} position={position} rotation={rotation}>
@@ -126,7 +211,8 @@ const Scene: React.FC<SceneProps> = React.memo(({
             })}
 
             {contactHighlights.map(({ wallId, axis, point, color, normalDirection }) => {
-                const { rotation } = getPlaneTransform(axis, 0);
+                // Facing the camera in 2D; flush with the wall plane in 3D
+                const rotation = planar ? [0, 0, 0] as [number, number, number] : getPlaneTransform(axis, 0).rotation;
                 const key = `${wallId}-${point.x.toFixed(3)}-${point.y.toFixed(3)}-${point.z.toFixed(3)}`;
                 const offsetDistance = 0.03;
                 const offset = {
@@ -170,7 +256,7 @@ const Scene: React.FC<SceneProps> = React.memo(({
                 );
             })}
 
-            {memoizedSceneData.map(({ id, color, initialVector, finalVector, interpolatedVector, path }) => (
+            {memoizedSceneData.map(({ id, color, initialVector, finalVector, interpolatedVector, path, segmentBoundaries }) => (
                 <React.Fragment key={id}>
                     {dotMode ? (
                         <>
@@ -205,10 +291,77 @@ const Scene: React.FC<SceneProps> = React.memo(({
                         style={fadingPathStyle}
                         dynamic={dynamicFadingPath}
                     />
+
+                    {/* Chain segment boundaries */}
+                    {segmentBoundaries.map((point, index) => (
+                        <mesh key={`boundary-${index}`} position={point}>
+                            <sphereGeometry args={[0.06, 12, 12]} />
+                            <meshBasicMaterial color="#f8fafc" transparent opacity={0.85} />
+                        </mesh>
+                    ))}
                 </React.Fragment>
             ))}
 
-            <OrbitControls />
+            {originMarkers && (
+                <>
+                    {showStartMarkers && originMarkers.initial && <OriginMarker position={originMarkers.initial} color="#e2e8f0" />}
+                    {showEndMarkers && originMarkers.final && <OriginMarker position={originMarkers.final} color="#e2e8f0" opacity={0.5} />}
+                    {originMarkers.current && <OriginMarker position={originMarkers.current} color="#fde047" />}
+                </>
+            )}
+
+            {pointTransform && shapes.map(shape => (
+                <DeformedShape key={shape.id} geometry={shape.geometry} color={shape.color} transform={pointTransform} />
+            ))}
+
+            {determinantVolume && <DeterminantVolume {...determinantVolume} />}
+
+            {singularEllipsoid && <SingularEllipsoid {...singularEllipsoid} />}
+
+            {coordinateFrame && <CoordinateFrame {...coordinateFrame} />}
+
+            {pointTransform && pointCloud && (
+                <PointCloudLayer points={pointCloud.points} colors={pointCloud.colors} size={pointCloud.size} transform={pointTransform} />
+            )}
+
+            {fieldOverlay && (
+                <FieldOverlay
+                    glyphs={fieldOverlay.glyphs}
+                    streamlines={fieldOverlay.streamlines}
+                    spacing={fieldOverlay.spacing}
+                    scale={fieldOverlay.scale}
+                />
+            )}
+
+            {eigenOverlay && eigenOverlay.lines.map((line, index) => {
+                const color = EIGEN_COLORS[index % EIGEN_COLORS.length];
+                const end = line.direction.clone().multiplyScalar(planeSize / 2);
+                return (
+                    <React.Fragment key={`eigen-line-${index}`}>
+                        <Line points={[end.clone().negate(), end]} color={color} lineWidth={1.5} transparent opacity={0.8} />
+                        <EigenLabel position={line.direction.clone().multiplyScalar(EIGEN_LABEL_DISTANCE)} color={color} text={line.label} />
+                    </React.Fragment>
+                );
+            })}
+
+            {eigenOverlay && eigenOverlay.planes.map((plane, index) => {
+                const color = EIGEN_COLORS[(eigenOverlay.lines.length + index) % EIGEN_COLORS.length];
+                return (
+                    <React.Fragment key={`eigen-plane-${index}`}>
+                        <mesh quaternion={plane.quaternion}>
+                            <circleGeometry args={[EIGEN_DISK_RADIUS, 64]} />
+                            <meshBasicMaterial color={color} transparent opacity={0.15} side={THREE.DoubleSide} depthWrite={false} />
+                        </mesh>
+                        <EigenLabel
+                            position={new THREE.Vector3(EIGEN_DISK_RADIUS, 0, 0).applyQuaternion(plane.quaternion)}
+                            color={color}
+                            text={plane.label}
+                        />
+                    </React.Fragment>
+                );
+            })}
+
+            <OrbitControls enableRotate={!planar} />
         </Canvas>
     );
 });
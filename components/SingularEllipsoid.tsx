@@ -0,0 +1,47 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import * as THREE from 'three';
+import VectorArrow from './VectorArrow';
+
+interface SingularEllipsoidProps {
+    /** Image of the origin. */
+    center: THREE.Vector3;
+    /** Principal semi-axes σᵢuᵢ in scene coordinates, largest first; the third is zero in 2D. */
+    axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+}
+
+const AXIS_COLORS = ['#f472b6', '#a78bfa', '#34d399'];
+
+// A unit sphere carried by the matrix whose columns are the semi-axes is exactly the image ellipsoid.
+const SingularEllipsoid: React.FC<SingularEllipsoidProps> = ({ center, axes }) => {
+    const groupRef = useRef<THREE.Group>(null);
+
+    useLayoutEffect(() => {
+        const group = groupRef.current;
+        if (!group) return;
+        group.matrix.makeBasis(axes[0], axes[1], axes[2]).setPosition(center);
+        group.matrixWorldNeedsUpdate = true;
+    }, [center, axes]);
+
+    return (
+        <>
+            <group ref={groupRef} matrixAutoUpdate={false}>
+                <mesh>
+                    <sphereGeometry args={[1, 48, 24]} />
+                    <meshBasicMaterial color="#c084fc" transparent opacity={0.12} side={THREE.DoubleSide} depthWrite={false} />
+                </mesh>
+                <mesh>
+                    <sphereGeometry args={[1, 24, 12]} />
+                    <meshBasicMaterial color="#c084fc" wireframe transparent opacity={0.25} />
+                </mesh>
+            </group>
+            <group position={center}>
+                {/* Collapsed axes unmount rather than render an empty VectorArrow. */}
+                {axes.map((axis, index) => axis.length() >= 0.001 && (
+                    <VectorArrow key={index} direction={axis} color={AXIS_COLORS[index]} />
+                ))}
+            </group>
+        </>
+    );
+};
+
+export default SingularEllipsoid;
@@ -6,13 +6,63 @@ export type Matrix3 = [
 
 export type Vector3 = [number, number, number];
 
+/** Square N×N matrix stored row by row. Matrix3/Vector3 remain for the 3D scene itself. */
+export type Matrix = number[][];
+
+export type Vector = number[];
+
 export interface VectorObject {
   id: number;
-  value: Vector3;
+  value: Vector;
   visible: boolean;
   color: string;
 }
 
+export type ShapeKind = 'cube' | 'sphere' | 'lattice' | 'mesh';
+
+/** Imported triangle mesh in rest coordinates, centered and scaled to fit [-1, 1]³. */
+export interface ShapeMesh {
+  name: string;
+  vertices: Vector3[];
+  /** Vertex indices, three per triangle. */
+  triangles: number[];
+}
+
+export interface ShapeObject {
+  id: number;
+  kind: ShapeKind;
+  visible: boolean;
+  color: string;
+  /** Present only for kind 'mesh'. */
+  mesh?: ShapeMesh;
+}
+
+export type PointCloudColoring = 'label' | 'colormap' | 'solid';
+
+/** Imported dataset drawn as points; columns beyond the current dimension are ignored. */
+export interface PointCloud {
+  name: string;
+  points: number[][];
+  /** Coordinate column names from the file header, or x1, x2, … */
+  columns: string[];
+  labels: string[] | null;
+  visible: boolean;
+  coloring: PointCloudColoring;
+  /** Column whose initial value drives the colormap. */
+  colormapColumn: number;
+  color: string;
+  pointSize: number;
+}
+
+/** Warped coordinate grid and basis images drawn under A(t). */
+export interface CoordinateFrameConfig {
+  enabled: boolean;
+  /** Grid lines per unit length. */
+  density: number;
+  /** Half-width of the grid along each axis. */
+  extent: number;
+}
+
 export type WallAxis = 'x' | 'y' | 'z';
 
 export interface Wall {
@@ -22,3 +72,88 @@ export interface Wall {
 }
 
 export type FadingPathStyle = 'smooth' | 'dots';
+
+export type EvaluationMode = 'power' | 'linear' | 'flow' | 'polar';
+
+export type BranchPolicy = 'principal' | 'realLog' | 'refuse';
+
+export type PathMode = 'identity' | 'geodesic' | 'chain' | 'timeVarying';
+
+export interface ChainSegment {
+  id: number;
+  matrix: Matrix;
+  presetName: string;
+  duration: number;
+}
+
+/**
+ * 'interpolate' follows the continuous path M(t)·v; 'iterate' steps x_{k+1} = f(A·x_k + b);
+ * 'network' sweeps t through a stack of layers; 'neuralOde' integrates the activation inside the flow;
+ * 'vectorField' integrates x' = F(x) typed as expressions.
+ */
+export type DynamicsMode = 'interpolate' | 'iterate' | 'network' | 'neuralOde' | 'vectorField';
+
+/** Right-hand side of the neural ODE: x' = f(Ax), or the leaky form x' = f(Ax) - x. */
+export type OdeField = 'activation' | 'leaky';
+
+export type OdeSolver = 'rk4' | 'rk45';
+
+/** Glyph grid and streamlines drawn over the scene to show the velocity field. */
+export interface FieldOverlayConfig {
+  enabled: boolean;
+  /** A full lattice in the sampled cube, or one slice plane through it. */
+  layout: 'lattice' | 'slice';
+  /** Samples per axis. */
+  density: number;
+  /** Half-width of the sampled cube in scene units. */
+  extent: number;
+  sliceAxis: WallAxis;
+  slicePosition: number;
+  /** Glyph length per unit speed; glyphs never outgrow the lattice spacing. */
+  scale: number;
+  streamlines: boolean;
+}
+
+/** Fixed-step scheme for the state-transition matrix of x' = A(t)x. */
+export type TransitionIntegrator = 'rk4' | 'magnus';
+
+/** Named constant of an activation, driven by a slider over [min, max]. */
+export interface ActivationParameter {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+}
+
+/** Slider variable of a parametric matrix; animated ones sweep [min, max] as t runs through the animation range. */
+export interface MatrixParameter extends ActivationParameter {
+  animated: boolean;
+}
+
+/** Matrix A written entry by entry as expressions in named parameters. */
+export interface ParametricMatrix {
+  enabled: boolean;
+  expressions: string[][];
+  params: MatrixParameter[];
+}
+
+export interface NetworkLayer {
+  id: number;
+  matrix: Matrix;
+  bias: Vector;
+  /** Key of activationFunctionMap, or 'custom' to use customFnStr. */
+  activation: string;
+  customFnStr: string;
+}
+
+export type GeodesicBlend = 'relative' | 'logEuclidean';
+
+export type ProjectionMode = 'axes' | 'matrix';
+
+export interface ProjectionConfig {
+  mode: ProjectionMode;
+  /** Coordinates (0-based) shown on the scene's x, y and z axes. */
+  axes: [number, number, number];
+  /** 3×N matrix applied instead when mode is 'matrix'. */
+  matrix: Matrix;
+}
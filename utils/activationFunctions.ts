@@ -1,7 +1,11 @@
 import * as math from 'mathjs';
+import type { Matrix, Vector, ActivationParameter, MatrixParameter } from '../types';
 
 export type ActivationFunction = (n: number) => number;
 
+/** Maps a whole point at once, so coordinates can be coupled (softmax, normalization, radial maps). */
+export type VectorActivationFunction = (v: Vector) => Vector;
+
 export const activationFunctionMap: { [key: string]: ActivationFunction } = {
     identity: (x) => x,
     relu: (x) => Math.max(0, x),
@@ -19,10 +23,215 @@ export const PRESET_ACTIVATION_FUNCTIONS = [
     { name: 'Leaky ReLU', value: 'leakyRelu' },
     { name: 'ELU', value: 'elu' },
     { name: 'Custom', value: 'custom' },
+    { name: 'Custom (vector)', value: 'customVector' },
 ];
 
+/** Presets whose constants are exposed as parameters; activationFunctionMap holds their defaults. */
+export const PARAMETERIZED_ACTIVATIONS: Record<string, {
+    params: ActivationParameter[];
+    create: (values: Record<string, number>) => ActivationFunction;
+}> = {
+    leakyRelu: {
+        params: [{ name: 'slope', value: 0.1, min: 0, max: 1 }],
+        create: ({ slope }) => (x) => (x >= 0 ? x : slope * x),
+    },
+    elu: {
+        params: [{ name: 'alpha', value: 1, min: 0, max: 3 }],
+        create: ({ alpha }) => (x) => (x >= 0 ? x : alpha * (Math.exp(x) - 1)),
+    },
+};
+
+const DEFAULT_PARAMETER_RANGE = { value: 1, min: -5, max: 5 };
+
+export const parameterValues = (params: ActivationParameter[]): Record<string, number> =>
+    Object.fromEntries(params.map(param => [param.name, param.value]));
+
+// Names always read as constants. Any other mathjs export (phi, tau, gamma, …) is free to be a parameter
+// unless it is called as a function.
+const MATH_CONSTANTS = new Set(['pi', 'PI', 'e', 'E', 'i', 'Infinity', 'NaN']);
+
+/**
+ * Symbols in the expressions that are neither variables, constants nor called as functions;
+ * each one becomes a parameter. Unparsable expressions contribute nothing.
+ */
+export function freeParameters(expressions: string[], variables: Set<string>): string[] {
+    const names = new Set<string>();
+    for (const expression of expressions) {
+        try {
+            math.parse(expression || '0').traverse((node, path, parent) => {
+                if (!math.isSymbolNode(node)) return;
+                if (parent && math.isFunctionNode(parent) && path === 'fn') return;
+                if (variables.has(node.name) || MATH_CONSTANTS.has(node.name)) return;
+                names.add(node.name);
+            });
+        } catch {
+            // Reported by the parser when the activation is compiled.
+        }
+    }
+    return [...names];
+}
+
+const vectorVariables = (n: number): Set<string> =>
+    new Set(['v', ...Array.from({ length: n }, (_, i) => [`x${i + 1}`, vectorComponentName(i)]).flat()]);
+
+/** Parameters of expressions over an N-vector, keeping the value and range of any that already exist. */
+export const reconcileExpressionParameters = (
+    expressions: string[],
+    current: ActivationParameter[],
+    n: number
+): ActivationParameter[] =>
+    freeParameters(expressions, vectorVariables(n))
+        .map(name => current.find(existing => existing.name === name) ?? { name, ...DEFAULT_PARAMETER_RANGE });
+
+/** Parameters of a parametric matrix; new names start out static. */
+export const reconcileMatrixParameters = (expressions: string[][], current: MatrixParameter[]): MatrixParameter[] =>
+    freeParameters(expressions.flat(), new Set())
+        .map(name => current.find(existing => existing.name === name) ?? { name, ...DEFAULT_PARAMETER_RANGE, animated: false });
+
+/** Parameters the activation declares, keeping the value and range of any that already exist by name. */
+export function reconcileActivationParameters(
+    name: string,
+    customFnStr: string,
+    vectorFnStrs: string[],
+    current: ActivationParameter[],
+    n: number
+): ActivationParameter[] {
+    if (name === 'customVector') {
+        return reconcileExpressionParameters(vectorFnStrs, current, n);
+    }
+    const declared = PARAMETERIZED_ACTIVATIONS[name]?.params
+        ?? (name === 'custom'
+            ? freeParameters([customFnStr], new Set(['x'])).map(param => ({ name: param, ...DEFAULT_PARAMETER_RANGE }))
+            : []);
+    return declared.map(param => current.find(existing => existing.name === param.name) ?? { ...param });
+}
+
+export const componentwise = (fn: ActivationFunction): VectorActivationFunction => (v) => v.map(fn);
+
+// Coordinate names for vector expressions; x1…xN and v = [x1, …, xN] are always available too.
+const COMPONENT_NAMES = ['x', 'y', 'z', 'w'];
+
+export const vectorComponentName = (index: number): string => COMPONENT_NAMES[index] ?? `x${index + 1}`;
+
+/** One identity expression per coordinate. */
+export const defaultVectorComponents = (n: number): string[] =>
+    Array.from({ length: n }, (_, i) => vectorComponentName(i));
+
+const vectorScope = (v: Vector): Record<string, unknown> => {
+    const scope: Record<string, unknown> = { v: [...v] };
+    v.forEach((value, i) => {
+        scope[`x${i + 1}`] = value;
+        scope[vectorComponentName(i)] = value;
+    });
+    return scope;
+};
+
+const describeResult = (result: unknown): string => {
+    if (typeof result === 'number') return 'a number';
+    if (math.isMatrix(result) || Array.isArray(result)) {
+        return `a vector of length ${math.flatten(math.matrix(result as number[])).size()[0]}`;
+    }
+    return math.typeOf(result);
+};
+
+/**
+ * Compiles one expression per coordinate, or a single expression that returns the whole N-vector.
+ * Errors name the offending component so they can be shown next to the inputs.
+ */
+export function parseVectorActivation(
+    expressions: string[],
+    n: number,
+    params: Record<string, number> = {}
+): { fn: VectorActivationFunction | null; error: string | null } {
+    const single = expressions.length === 1;
+    if (!single && expressions.length !== n) {
+        return { fn: null, error: `Expected ${n} component expressions or one vector expression, got ${expressions.length}.` };
+    }
+    const label = (index: number) => (single ? 'Vector expression' : `Component ${vectorComponentName(index)}`);
+
+    let codes: math.EvalFunction[];
+    try {
+        codes = expressions.map((expression, index) => {
+            try {
+                // An empty field leaves its coordinate (or the whole vector) unchanged.
+                return math.compile(expression.trim() || (single ? 'v' : vectorComponentName(index)));
+            } catch (e: any) {
+                throw new Error(`${label(index)}: ${e.message || 'invalid expression'}`);
+            }
+        });
+    } catch (e: any) {
+        return { fn: null, error: e.message };
+    }
+
+    const evaluateCode = (index: number, scope: Record<string, unknown>): unknown => {
+        try {
+            return codes[index].evaluate(scope);
+        } catch (e: any) {
+            throw new Error(`${label(index)}: ${e.message || 'evaluation failed'}`);
+        }
+    };
+
+    const evaluate = (v: Vector): Vector => {
+        const scope = { ...params, ...vectorScope(v) };
+        if (single) {
+            const result = evaluateCode(0, scope);
+            const values = math.isMatrix(result) || Array.isArray(result)
+                ? (math.flatten(math.matrix(result as number[])).toArray() as unknown[])
+                : null;
+            if (!values || values.length !== n || values.some(value => typeof value !== 'number')) {
+                throw new Error(`${label(0)} must return ${n} numbers, got ${describeResult(result)}.`);
+            }
+            return values as number[];
+        }
+        return codes.map((_, index) => {
+            const result = evaluateCode(index, scope);
+            if (typeof result !== 'number') {
+                throw new Error(`${label(index)} must return a number, got ${describeResult(result)}.`);
+            }
+            return result;
+        });
+    };
+
+    // Validate at a generic point (away from 0, where many radial maps divide) to surface errors up front.
+    try {
+        const probe = evaluate(Array.from({ length: n }, (_, i) => 0.5 + 0.25 * i));
+        if (!probe.every(Number.isFinite)) {
+            throw new Error('Activation returned a non-finite value at the test point.');
+        }
+    } catch (e: any) {
+        return { fn: null, error: e.message || 'Invalid expression' };
+    }
+
+    const fn: VectorActivationFunction = (v) => {
+        try {
+            return evaluate(v).map(value => (Number.isFinite(value) ? value : NaN));
+        } catch (evalError) {
+            console.error('Custom vector function evaluation error:', evalError);
+            return v.map(() => NaN);
+        }
+    };
+    return { fn, error: null };
+}
+
+/** Preset by name, or the compiled expression when name is 'custom'. */
+export function resolveActivation(
+    name: string,
+    customFnStr: string,
+    params: Record<string, number> = {}
+): { fn: ActivationFunction | null; error: string | null } {
+    if (name === 'custom') {
+        return parseCustomActivation(customFnStr, params);
+    }
+    const parameterized = PARAMETERIZED_ACTIVATIONS[name];
+    if (parameterized && parameterized.params.every(param => Number.isFinite(params[param.name]))) {
+        return { fn: parameterized.create(params), error: null };
+    }
+    return { fn: activationFunctionMap[name] ?? activationFunctionMap.identity, error: null };
+}
+
 export function parseCustomActivation(
-    expression: string
+    expression: string,
+    params: Record<string, number> = {}
 ): { fn: ActivationFunction | null; error: string | null } {
     if (!expression.trim()) {
         return { fn: (x) => x, error: null }; // Default to identity if empty
@@ -33,7 +242,7 @@ export function parseCustomActivation(
         
         const fn = (x: number): number => {
             try {
-                const result = code.evaluate({ x });
+                const result = code.evaluate({ ...params, x });
                 if (typeof result !== 'number' || !isFinite(result)) {
                     return NaN;
                 }
@@ -55,3 +264,43 @@ export function parseCustomActivation(
         return { fn: null, error: e.message || 'Invalid expression' };
     }
 }
+
+/**
+ * Compiles one expression per matrix entry. `evaluate` throws with the offending entry named,
+ * so a bad value for one parameter is reported rather than silently zeroed.
+ */
+export function parseMatrixExpressions(
+    expressions: string[][]
+): { evaluate: ((params: Record<string, number>) => Matrix) | null; error: string | null } {
+    const label = (i: number, j: number) => `Entry (${i + 1}, ${j + 1})`;
+    let codes: math.EvalFunction[][];
+    try {
+        codes = expressions.map((row, i) => row.map((expression, j) => {
+            try {
+                return math.compile(expression.trim() || '0');
+            } catch (e: any) {
+                throw new Error(`${label(i, j)}: ${e.message || 'invalid expression'}`);
+            }
+        }));
+    } catch (e: any) {
+        return { evaluate: null, error: e.message };
+    }
+
+    const evaluate = (params: Record<string, number>): Matrix => codes.map((row, i) => row.map((code, j) => {
+        let result: unknown;
+        try {
+            result = code.evaluate({ ...params });
+        } catch (e: any) {
+            throw new Error(`${label(i, j)}: ${e.message || 'evaluation failed'}`);
+        }
+        if (typeof result !== 'number') {
+            throw new Error(`${label(i, j)} must be a number, got ${describeResult(result)}.`);
+        }
+        if (!Number.isFinite(result)) {
+            throw new Error(`${label(i, j)} is ${result}.`);
+        }
+        return result;
+    }));
+
+    return { evaluate, error: null };
+}
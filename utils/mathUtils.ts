@@ -1,6 +1,8 @@
 import * as math from 'mathjs';
-import type { Matrix3, Vector3 } from '../types';
-import type { ActivationFunction } from './activationFunctions';
+import type { Matrix, Vector, Vector3, EvaluationMode, BranchPolicy, GeodesicBlend, ProjectionConfig, OdeSolver, TransitionIntegrator, FieldOverlayConfig } from '../types';
+import type { ActivationFunction, VectorActivationFunction } from './activationFunctions';
+
+type Scalar = number | math.Complex;
 
 export const toReal = (val: number | math.Complex): number => {
     if (typeof val === 'object' && val !== null && 're' in val) {
@@ -9,89 +11,699 @@ export const toReal = (val: number | math.Complex): number => {
     return val as number;
 };
 
+const imaginaryPart = (val: Scalar): number => {
+    if (typeof val === 'object' && val !== null && 'im' in val) {
+        return (val as math.Complex).im;
+    }
+    return 0;
+};
+
+const scalarAbs = (value: Scalar): number => math.abs(value as math.Complex) as unknown as number;
+
 export interface TransformOptions {
-    linearEigenInterpolation?: boolean;
+    /** Eigen power A^t, linear eigenvalue blend, flow e^{tA}, or polar R(t)·S(t). */
+    mode?: EvaluationMode;
+    /** How non-real powers λ^t (negative or complex λ) are handled in power mode. */
+    branch?: BranchPolicy;
+    /** Winding number k: λ^t uses arg(λ) + 2πk (conjugates use −k so real matrices stay real). */
+    branchIndex?: number;
 }
 
+const resolveMode = (options?: TransformOptions): EvaluationMode => options?.mode ?? 'power';
+const resolveBranch = (options?: TransformOptions): BranchPolicy => options?.branch ?? 'principal';
+const resolveBranchIndex = (options?: TransformOptions): number => {
+    const k = options?.branchIndex ?? 0;
+    return Number.isFinite(k) ? Math.round(k) : 0;
+};
+
+const REAL_AXIS_TOLERANCE = 1e-9;
+
+const isNegativeReal = (value: Scalar): boolean =>
+    toReal(value) < 0 && Math.abs(imaginaryPart(value)) <= REAL_AXIS_TOLERANCE * Math.max(1, scalarAbs(value));
+
+const isPositiveReal = (value: Scalar): boolean =>
+    toReal(value) > 0 && Math.abs(imaginaryPart(value)) <= REAL_AXIS_TOLERANCE * Math.max(1, scalarAbs(value));
+
+// |λ|^t · e^{iθt}, i.e. λ^t evaluated on the logarithm branch ln|λ| + iθ
+const powerWithArgument = (value: Scalar, t: number, theta: number): Scalar =>
+    math.complex({ r: Math.pow(scalarAbs(value), t), phi: theta * t });
+
+// Argument of λ on the selected branch. Positive reals always stay on the principal branch.
+const branchArgument = (value: Scalar, branchIndex: number): number => {
+    if (isNegativeReal(value)) {
+        return Math.PI * (1 + 2 * branchIndex);
+    }
+    const direction = imaginaryPart(value) < 0 ? -1 : 1;
+    return Math.atan2(imaginaryPart(value), toReal(value)) + direction * 2 * Math.PI * branchIndex;
+};
+
 export const interpolateEigenvalue = (
     value: number | math.Complex,
     t: number,
     options?: TransformOptions
 ): number | math.Complex => {
-    if (options?.linearEigenInterpolation) {
+    const mode = resolveMode(options);
+    if (mode === 'linear') {
         // Linear interpolation between 1 and the eigenvalue: (1 - t) + t * value
         return math.add(
             math.multiply(value, t),
             math.multiply(1 - t, 1)
         ) as number | math.Complex;
     }
-    return math.pow(value, t) as number | math.Complex;
+    if (mode === 'flow') {
+        // Eigenvalues of e^{tA} are e^{tλ}
+        return math.exp(math.multiply(value, t) as math.Complex) as number | math.Complex;
+    }
+    const branchIndex = resolveBranchIndex(options);
+    if (branchIndex === 0 || isPositiveReal(value) || scalarAbs(value) === 0) {
+        return math.pow(value, t) as number | math.Complex;
+    }
+    return powerWithArgument(value, t, branchArgument(value, branchIndex));
 };
 
-export const multiplyMatrixVector = (matrix: Matrix3, vector: Vector3): Vector3 => {
-    const [x, y, z] = vector;
-    return [
-        matrix[0][0] * x + matrix[0][1] * y + matrix[0][2] * z,
-        matrix[1][0] * x + matrix[1][1] * y + matrix[1][2] * z,
-        matrix[2][0] * x + matrix[2][1] * y + matrix[2][2] * z,
-    ];
+// k-th derivative with respect to λ of the function used by interpolateEigenvalue.
+// Needed by the Jordan fallback, where repeated eigenvalues contribute derivative terms.
+const interpolateEigenvalueDerivative = (
+    value: Scalar,
+    t: number,
+    order: number,
+    options?: TransformOptions
+): Scalar => {
+    if (order === 0) {
+        return interpolateEigenvalue(value, t, options);
+    }
+    const mode = resolveMode(options);
+    if (mode === 'linear') {
+        return order === 1 ? t : 0;
+    }
+    if (mode === 'flow') {
+        // d^k/dλ^k e^{tλ} = t^k e^{tλ}
+        return math.multiply(Math.pow(t, order), interpolateEigenvalue(value, t, options)) as Scalar;
+    }
+    // d^k/dλ^k λ^t = t(t-1)…(t-k+1) λ^(t-k)
+    let coefficient = 1;
+    for (let i = 0; i < order; i++) {
+        coefficient *= t - i;
+    }
+    if (coefficient === 0) {
+        return 0;
+    }
+    // λ^(t-k) = λ^t / λ^k keeps the derivative on the same branch as λ^t
+    const power = interpolateEigenvalue(value, t, options);
+    return math.divide(math.multiply(coefficient, power), math.pow(value, order)) as Scalar;
+};
+
+export const multiplyMatrixVector = (matrix: Matrix, vector: Vector): Vector =>
+    matrix.map(row => row.reduce((sum, value, j) => sum + value * (vector[j] ?? 0), 0));
+
+/** Homogeneous matrix [[A, b], [0, corner]]. */
+export const homogeneousMatrix = (A: Matrix, b: Vector, corner = 1): Matrix => [
+    ...A.map((row, i) => [...row, b[i] ?? 0]),
+    [...A.map(() => 0), corner],
+];
+
+/** Applies a homogeneous (n+1)×(n+1) matrix to an n-vector as the affine map x ↦ Ax + b. */
+export const applyHomogeneous = (matrix: Matrix, vector: Vector): Vector =>
+    multiplyMatrixVector(matrix, [...vector, 1]).slice(0, vector.length);
+
+export const identityMatrix = (n: number): Matrix =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+/** Embeds the top-left block of a matrix into n×n, padding with the identity. */
+export const resizeMatrix = (matrix: Matrix, n: number): Matrix =>
+    identityMatrix(n).map((row, i) => row.map((value, j) => matrix[i]?.[j] ?? value));
+
+/** Truncates or zero-pads a vector to n coordinates. */
+export const resizeVector = (vector: Vector, n: number): Vector =>
+    Array.from({ length: n }, (_, i) => vector[i] ?? 0);
+
+/** Maps an N-dimensional point to scene coordinates: three chosen coordinates, or a 3×N matrix. */
+export const projectVector = (vector: Vector, projection: ProjectionConfig): Vector3 => {
+    if (projection.mode === 'matrix') {
+        const [x = 0, y = 0, z = 0] = multiplyMatrixVector(projection.matrix, vector);
+        return [x, y, z];
+    }
+    const [a, b, c] = projection.axes;
+    return [vector[a] ?? 0, vector[b] ?? 0, vector[c] ?? 0];
+};
+
+/**
+ * Point of R^N that projects onto a scene point: the chosen coordinates in axes mode,
+ * the least-squares preimage (pseudo-inverse) in matrix mode.
+ */
+export const liftVector = (point: Vector3, projection: ProjectionConfig, n: number): Vector => {
+    if (projection.mode === 'matrix') {
+        try {
+            const inverse = math.pinv(projection.matrix) as Matrix;
+            return multiplyMatrixVector(inverse.slice(0, n), point);
+        } catch {
+            return new Array(n).fill(0);
+        }
+    }
+    const vector = new Array(n).fill(0);
+    projection.axes.forEach((axis, k) => {
+        if (axis < n) vector[axis] = point[k];
+    });
+    return vector;
 };
 
 const optionKey = (options?: TransformOptions): string =>
-    options?.linearEigenInterpolation ? 'linear' : 'pow';
+    `${resolveMode(options)}:${resolveBranch(options)}:${resolveBranchIndex(options)}`;
 
 const timeKey = (t: number): number => (Number.isFinite(t) ? Number(t.toFixed(6)) : NaN);
 
+// --- Evaluation methods ---
+
+export type EvaluationMethod = 'diagonalization' | 'jordan' | 'expm' | 'logEuclidean' | 'polar' | 'rk4Transition' | 'magnus';
+
+export const EVALUATION_METHOD_LABELS: Record<EvaluationMethod, string> = {
+    diagonalization: 'P·Dᵗ·P⁻¹ (diagonalization)',
+    jordan: 'Jordan (confluent interpolation)',
+    expm: 'expm(tA) (Padé)',
+    logEuclidean: 'expm((1-t)·log A + t·log B)',
+    polar: 'A = R·S (slerp R, blend S)',
+    rk4Transition: 'Φ\' = A(t)Φ (RK4, fixed step)',
+    magnus: 'Φ\' = A(t)Φ (4th-order Magnus)',
+};
+
+// Flow and polar modes bypass the eigendecomposition, so they report their own method.
+const methodForMode = (options: TransformOptions | undefined, spectralMethod: EvaluationMethod): EvaluationMethod => {
+    const mode = resolveMode(options);
+    if (mode === 'flow') return 'expm';
+    if (mode === 'polar') return 'polar';
+    return spectralMethod;
+};
+
+const EIGENVALUE_CLUSTER_TOLERANCE = 1e-6;
+const EIGENVECTOR_CONDITION_LIMIT = 1e10;
+
+const areClose = (a: Scalar, b: Scalar): boolean => {
+    const scale = Math.max(1, scalarAbs(a), scalarAbs(b));
+    return scalarAbs(math.subtract(a, b) as Scalar) <= EIGENVALUE_CLUSTER_TOLERANCE * scale;
+};
+
+const factorial = (k: number): number => {
+    let result = 1;
+    for (let i = 2; i <= k; i++) result *= i;
+    return result;
+};
+
+const identityArray = (n: number): Scalar[][] =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+/**
+ * Orders eigenvalues so that numerically repeated ones are adjacent and share one exact value.
+ * The confluent divided differences below rely on both properties.
+ */
+const clusterEigenvalues = (values: Scalar[]): Scalar[] => {
+    const remaining = [...values];
+    const ordered: Scalar[] = [];
+    while (remaining.length > 0) {
+        const pivot = remaining.shift()!;
+        const group: Scalar[] = [pivot];
+        for (let i = remaining.length - 1; i >= 0; i--) {
+            if (areClose(remaining[i], pivot)) {
+                group.push(remaining[i]);
+                remaining.splice(i, 1);
+            }
+        }
+        const sum = group.reduce<Scalar>((acc, value) => math.add(acc, value) as Scalar, 0);
+        const mean = math.divide(sum, group.length) as Scalar;
+        group.forEach(() => ordered.push(mean));
+    }
+    return ordered;
+};
+
+/**
+ * Newton coefficients f[x0], f[x0,x1], … with repeated nodes replaced by derivatives
+ * (Hermite interpolation), so f(A) = Σ c_k Π_{m<k} (A - x_m I) holds for any Jordan structure.
+ */
+const confluentDividedDifferences = (
+    nodes: Scalar[],
+    evaluate: (node: Scalar, order: number) => Scalar
+): Scalar[] => {
+    let level = nodes.map(node => evaluate(node, 0));
+    const coefficients: Scalar[] = [level[0]];
+    for (let k = 1; k < nodes.length; k++) {
+        const next: Scalar[] = [];
+        for (let i = 0; i + k < nodes.length; i++) {
+            if (areClose(nodes[i + k], nodes[i])) {
+                next.push(math.divide(evaluate(nodes[i], k), factorial(k)) as Scalar);
+            } else {
+                const span = math.subtract(nodes[i + k], nodes[i]) as Scalar;
+                next.push(math.divide(math.subtract(level[i + 1], level[i]), span) as Scalar);
+            }
+        }
+        coefficients.push(next[0]);
+        level = next;
+    }
+    return coefficients;
+};
+
+type MatrixFunction = (t: number, options?: TransformOptions) => Scalar[][];
+
+interface SpectralEvaluation {
+    eigenValues: Scalar[];
+    /** False when a negative eigenvalue is left without a partner, so no real logarithm keeps A^t real. */
+    hasRealLogarithm: boolean;
+    eigenvaluesAt: (t: number, options?: TransformOptions) => Scalar[];
+    evaluate: MatrixFunction;
+}
+
+// Imaginary parts above this are treated as a genuinely complex A^t rather than rounding noise.
+export const IMAGINARY_RESIDUAL_TOLERANCE = 1e-8;
+
+const usesRealLogarithm = (options?: TransformOptions): boolean =>
+    resolveMode(options) === 'power' && resolveBranch(options) === 'realLog';
+
+// Pairs up repeated negative eigenvalues; each pair can share a real logarithm (a rotation by ±π).
+const findNegativeRealPairs = (values: Scalar[]): [number, number][] => {
+    const pending = values.map((value, index) => ({ value, index })).filter(entry => isNegativeReal(entry.value));
+    const pairs: [number, number][] = [];
+    while (pending.length > 1) {
+        const first = pending.shift()!;
+        const partnerIndex = pending.findIndex(entry => areClose(entry.value, first.value));
+        if (partnerIndex !== -1) {
+            pairs.push([first.index, pending[partnerIndex].index]);
+            pending.splice(partnerIndex, 1);
+        }
+    }
+    return pairs;
+};
+
+// Eigenvectors of real eigenvalues may come back with an arbitrary complex phase; rotate it away.
+const realEigenvector = (vector: Scalar[]): number[] => {
+    const pivot = vector.reduce<Scalar>((best, entry) => (scalarAbs(entry) > scalarAbs(best) ? entry : best), 0);
+    const magnitude = scalarAbs(pivot);
+    if (magnitude === 0) {
+        return vector.map(toReal);
+    }
+    const unphase = math.divide(math.conj(pivot as math.Complex), magnitude) as Scalar;
+    return vector.map(entry => toReal(math.multiply(entry, unphase) as Scalar));
+};
+
+const invertBasis = (columns: Scalar[][]): { P: math.Matrix; Pinv: math.Matrix } | null => {
+    const P = math.transpose(math.matrix(columns));
+    try {
+        const Pinv = math.inv(P);
+        const condition = (math.norm(P, 'fro') as number) * (math.norm(Pinv, 'fro') as number);
+        if (!Number.isFinite(condition) || condition > EIGENVECTOR_CONDITION_LIMIT) {
+            return null;
+        }
+        return { P, Pinv };
+    } catch {
+        return null;
+    }
+};
+
+const createDiagonalization = (
+    eigenvectors: { value: Scalar; vector: Scalar[] }[],
+    n: number
+): SpectralEvaluation | null => {
+    if (eigenvectors.length !== n) {
+        return null;
+    }
+    // Pair each eigenvector with its own eigenvalue; eigs does not promise the same order as `values`.
+    const pairedValues = eigenvectors.map(entry => entry.value);
+    const principalBasis = invertBasis(eigenvectors.map(entry => entry.vector));
+    if (!principalBasis) {
+        return null;
+    }
+
+    // For λ < 0 with eigenvectors v1, v2, the columns v1 ± i·v2 diagonalize the same block,
+    // and giving them arguments ±π keeps P·Dᵗ·P⁻¹ real.
+    const negativePairs = findNegativeRealPairs(pairedValues);
+    const unpairedNegatives = pairedValues.filter(isNegativeReal).length - 2 * negativePairs.length;
+    let realLogBasis: { P: math.Matrix; Pinv: math.Matrix } | null | undefined;
+    const getRealLogBasis = () => {
+        if (realLogBasis === undefined) {
+            const columns: Scalar[][] = eigenvectors.map(entry => entry.vector);
+            negativePairs.forEach(([i, j]) => {
+                const first = realEigenvector(eigenvectors[i].vector);
+                const second = realEigenvector(eigenvectors[j].vector);
+                columns[i] = first.map((re, idx) => math.complex(re, second[idx]));
+                columns[j] = first.map((re, idx) => math.complex(re, -second[idx]));
+            });
+            realLogBasis = negativePairs.length > 0 ? invertBasis(columns) : null;
+        }
+        return realLogBasis;
+    };
+
+    const pairedBasisFor = (options?: TransformOptions) =>
+        usesRealLogarithm(options) ? getRealLogBasis() : null;
+
+    const eigenvaluesAt = (t: number, options?: TransformOptions): Scalar[] => {
+        const values = pairedValues.map(lambda => interpolateEigenvalue(lambda, t, options));
+        if (pairedBasisFor(options)) {
+            const theta = Math.PI * (1 + 2 * resolveBranchIndex(options));
+            negativePairs.forEach(([i, j]) => {
+                values[i] = powerWithArgument(pairedValues[i], t, theta);
+                values[j] = powerWithArgument(pairedValues[j], t, -theta);
+            });
+        }
+        return values;
+    };
+
+    return {
+        eigenValues: pairedValues,
+        hasRealLogarithm: unpairedNegatives === 0 && (negativePairs.length === 0 || getRealLogBasis() !== null),
+        eigenvaluesAt,
+        evaluate: (t, options) => {
+            const { P, Pinv } = pairedBasisFor(options) ?? principalBasis;
+            const Dt = math.diag(eigenvaluesAt(t, options));
+            const At = math.multiply(math.multiply(P, Dt), Pinv) as math.Matrix;
+            return At.toArray() as Scalar[][];
+        },
+    };
+};
+
+const createJordanInterpolation = (A: Scalar[][], eigenValues: Scalar[]): SpectralEvaluation => {
+    const n = A.length;
+    const nodes = clusterEigenvalues(eigenValues);
+    const identity = identityArray(n);
+    // Newton basis Π_{m<k} (A - x_m I) does not depend on t, so build it once.
+    const basis: Scalar[][][] = [identity];
+    for (let k = 1; k < n; k++) {
+        const shifted = math.subtract(A, math.multiply(nodes[k - 1], identity)) as Scalar[][];
+        basis.push(math.multiply(basis[k - 1], shifted) as Scalar[][]);
+    }
+    return {
+        eigenValues,
+        // The confluent interpolation has no way to pair blocks, so any negative eigenvalue stays complex.
+        hasRealLogarithm: !eigenValues.some(isNegativeReal),
+        eigenvaluesAt: (t, options) => eigenValues.map(lambda => interpolateEigenvalue(lambda, t, options)),
+        evaluate: (t, options) => {
+            const coefficients = confluentDividedDifferences(
+                nodes,
+                (node, order) => interpolateEigenvalueDerivative(node, t, order, options)
+            );
+            return basis.reduce<Scalar[][]>(
+                (acc, term, k) => math.add(acc, math.multiply(coefficients[k], term)) as Scalar[][],
+                identityArray(n).map(row => row.map(() => 0))
+            );
+        },
+    };
+};
+
+// --- Polar decomposition ---
+
+type Quaternion = [number, number, number, number];
+
+const rotationToQuaternion = (R: number[][]): Quaternion => {
+    const trace = R[0][0] + R[1][1] + R[2][2];
+    let q: Quaternion;
+    if (trace > 0) {
+        const s = 2 * Math.sqrt(trace + 1);
+        q = [s / 4, (R[2][1] - R[1][2]) / s, (R[0][2] - R[2][0]) / s, (R[1][0] - R[0][1]) / s];
+    } else if (R[0][0] > R[1][1] && R[0][0] > R[2][2]) {
+        const s = 2 * Math.sqrt(1 + R[0][0] - R[1][1] - R[2][2]);
+        q = [(R[2][1] - R[1][2]) / s, s / 4, (R[0][1] + R[1][0]) / s, (R[0][2] + R[2][0]) / s];
+    } else if (R[1][1] > R[2][2]) {
+        const s = 2 * Math.sqrt(1 + R[1][1] - R[0][0] - R[2][2]);
+        q = [(R[0][2] - R[2][0]) / s, (R[0][1] + R[1][0]) / s, s / 4, (R[1][2] + R[2][1]) / s];
+    } else {
+        const s = 2 * Math.sqrt(1 + R[2][2] - R[0][0] - R[1][1]);
+        q = [(R[1][0] - R[0][1]) / s, (R[0][2] + R[2][0]) / s, (R[1][2] + R[2][1]) / s, s / 4];
+    }
+    const norm = Math.hypot(...q);
+    // q and -q are the same rotation; w ≥ 0 picks the shorter arc from the identity.
+    const sign = q[0] < 0 ? -1 : 1;
+    return q.map(component => (sign * component) / norm) as Quaternion;
+};
+
+const quaternionToRotation = ([w, x, y, z]: Quaternion): Matrix => [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)],
+];
+
+// Slerp from the identity rotation to q; t outside [0, 1] keeps turning about the same axis.
+const slerpFromIdentity = (q: Quaternion, t: number): Quaternion => {
+    const halfAngle = Math.acos(Math.min(1, Math.max(-1, q[0])));
+    const sinHalf = Math.sin(halfAngle);
+    if (sinHalf < 1e-12) {
+        return [1, 0, 0, 0];
+    }
+    const scale = Math.sin(t * halfAngle) / sinHalf;
+    return [Math.cos(t * halfAngle), q[1] * scale, q[2] * scale, q[3] * scale];
+};
+
+export interface PolarFactors {
+    /** Proper rotation (det R = +1). */
+    rotation: Matrix;
+    /** Symmetric stretch; carries a negative eigenvalue when det A < 0. */
+    stretch: Matrix;
+    singularValues: number[];
+}
+
+/**
+ * Polar decomposition A = R·S from the eigendecomposition of AᵀA = QΣ²Qᵀ.
+ * Reflections are moved into S (the smallest singular direction is flipped) so R stays a rotation
+ * that can be slerped. Returns null for singular A, where R is not unique.
+ */
+export function polarDecomposition(A: Matrix): PolarFactors | null {
+    try {
+        const gram = math.multiply(math.transpose(A), A) as number[][];
+        const { eigenvectors } = math.eigs(gram) as unknown as { eigenvectors: { value: number; vector: number[] }[] };
+        const pairs = eigenvectors.map(entry => {
+            const vector = (math.matrix(entry.vector).toArray() as number[]).map(toReal);
+            const length = Math.hypot(...vector);
+            return { sigma: Math.sqrt(Math.max(0, toReal(entry.value))), vector: vector.map(c => c / length) };
+        });
+        const largest = Math.max(...pairs.map(pair => pair.sigma));
+        if (pairs.length !== A.length || !(largest > 0) || pairs.some(pair => pair.sigma <= largest * 1e-10)) {
+            return null;
+        }
+        const signs = pairs.map(() => 1);
+        if ((math.det(A) as number) < 0) {
+            const smallest = pairs.reduce((best, pair, index) => (pair.sigma < pairs[best].sigma ? index : best), 0);
+            signs[smallest] = -1;
+        }
+        // Σ-weighted sums of outer products q·qᵀ
+        const weighted = (weight: (sigma: number, sign: number) => number): Matrix =>
+            A.map((_, i) => A.map((__, j) =>
+                pairs.reduce((sum, pair, k) => sum + weight(pair.sigma, signs[k]) * pair.vector[i] * pair.vector[j], 0)
+            ));
+        const stretch = weighted((sigma, sign) => sign * sigma);
+        const rotation = multiplyMatrices(A, weighted((sigma, sign) => sign / sigma));
+        return { rotation, stretch, singularValues: pairs.map(pair => pair.sigma).sort((a, b) => b - a) };
+    } catch {
+        return null;
+    }
+}
+
+export interface SingularValueDecomposition {
+    /** σ₁ ≥ σ₂ ≥ … ≥ σₙ ≥ 0. */
+    values: number[];
+    /** Right singular vectors vᵢ, unit length, in the order of `values`. */
+    inputDirections: Vector[];
+    /** Principal semi-axes A·vᵢ = σᵢ·uᵢ of the image of the unit sphere. */
+    semiAxes: Vector[];
+    /** Operator 2-norm σ₁. */
+    operatorNorm: number;
+    /** σ₁ / σₙ; Infinity when A is singular. */
+    conditionNumber: number;
+}
+
+const JACOBI_MAX_SWEEPS = 60;
+
+/**
+ * One-sided Jacobi SVD: plane rotations V orthogonalize the columns of A·V, whose norms are then the
+ * singular values. Unlike √eig(AᵀA), small σ keep full relative accuracy, so singular A is recognized.
+ */
+export function singularValueDecomposition(A: Matrix): SingularValueDecomposition | null {
+    const n = A.length;
+    const columns = A.map(row => [...row]);
+    const rotations = identityMatrix(n);
+    for (let sweep = 0; sweep < JACOBI_MAX_SWEEPS; sweep++) {
+        let rotated = false;
+        for (let p = 0; p < n - 1; p++) {
+            for (let q = p + 1; q < n; q++) {
+                let alpha = 0;
+                let beta = 0;
+                let gamma = 0;
+                for (let i = 0; i < n; i++) {
+                    alpha += columns[i][p] * columns[i][p];
+                    beta += columns[i][q] * columns[i][q];
+                    gamma += columns[i][p] * columns[i][q];
+                }
+                if (Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) continue;
+                rotated = true;
+                const zeta = (beta - alpha) / (2 * gamma);
+                const tangent = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+                const cosine = 1 / Math.sqrt(1 + tangent * tangent);
+                const sine = cosine * tangent;
+                for (const target of [columns, rotations]) {
+                    for (let i = 0; i < n; i++) {
+                        const left = target[i][p];
+                        const right = target[i][q];
+                        target[i][p] = cosine * left - sine * right;
+                        target[i][q] = sine * left + cosine * right;
+                    }
+                }
+            }
+        }
+        if (!rotated) break;
+    }
+    const column = (M: Matrix, j: number) => M.map(row => row[j]);
+    const order = Array.from({ length: n }, (_, j) => ({ j, sigma: Math.hypot(...column(columns, j)) }))
+        .sort((a, b) => b.sigma - a.sigma);
+    if (n === 0 || order.some(({ sigma }) => !Number.isFinite(sigma))) {
+        return null;
+    }
+    const largest = order[0].sigma;
+    const smallest = order[n - 1].sigma;
+    return {
+        values: order.map(({ sigma }) => sigma),
+        inputDirections: order.map(({ j }) => column(rotations, j)),
+        semiAxes: order.map(({ j }) => column(columns, j)),
+        operatorNorm: largest,
+        conditionNumber: smallest > largest * 1e-12 ? largest / smallest : Infinity
+    };
+}
+
+// R(t)·((1-t)·I + t·S): the rotation turns at constant angular speed while the stretch grows linearly.
+// In 3D R(t) is a quaternion slerp; in other dimensions it is expm(t·log R), the same geodesic on SO(n).
+const createPolarInterpolation = (A: Matrix): MatrixFunction | null => {
+    const factors = polarDecomposition(A);
+    if (!factors) {
+        return null;
+    }
+    let rotationAt: (t: number) => Matrix;
+    if (A.length === 3) {
+        const quaternion = rotationToQuaternion(factors.rotation);
+        rotationAt = (t) => quaternionToRotation(slerpFromIdentity(quaternion, t));
+    } else {
+        const logRotation = matrixLogarithm(factors.rotation);
+        if (!logRotation) {
+            return null;
+        }
+        rotationAt = (t) => (math.expm(math.matrix(math.multiply(logRotation, t) as number[][])) as math.Matrix).toArray() as Matrix;
+    }
+    return (t) => {
+        const rotation = rotationAt(t);
+        const stretch = factors.stretch.map((row, i) =>
+            row.map((value, j) => t * value + (i === j ? 1 - t : 0))
+        );
+        return multiplyMatrices(rotation, stretch);
+    };
+};
+
+/** Eigenvalue with its (possibly complex) eigenvector, as plain arrays. */
+export interface EigenPair {
+    value: number | math.Complex;
+    vector: (number | math.Complex)[];
+}
+
 export interface MatrixEvaluator {
     eigenValues: (number | math.Complex)[];
-    getMatrixAt: (t: number, options?: TransformOptions) => Matrix3 | null;
-    applyToVector: (t: number, v: Vector3, options?: TransformOptions) => Vector3 | null;
+    /** Eigenpairs of the matrix whose powers drive the path; empty where the path has no single generator. */
+    eigenvectors: EigenPair[];
+    method: EvaluationMethod;
+    /** True when some λ^t leaves the real line, so the branch policy matters. */
+    hasNegativeEigenvalues: boolean;
+    /** False when the 'realLog' branch has no real logarithm to use; A^t is then unavailable on that branch. */
+    hasRealLogarithm: boolean;
+    getMethod: (options?: TransformOptions) => EvaluationMethod;
+    getEigenvaluesAt: (t: number, options?: TransformOptions) => (number | math.Complex)[];
+    getMatrixAt: (t: number, options?: TransformOptions) => Matrix | null;
+    /** Largest |Im| entry discarded when A^t was made real (null if A^t is undefined at t). */
+    getImaginaryResidual: (t: number, options?: TransformOptions) => number | null;
+    applyToVector: (t: number, v: Vector, options?: TransformOptions) => Vector | null;
 }
 
-export function createMatrixEvaluator(A: Matrix3): MatrixEvaluator | null {
+interface CachedMatrix {
+    matrix: Matrix | null;
+    residual: number | null;
+}
+
+export function createMatrixEvaluator(A: Matrix): MatrixEvaluator | null {
     try {
         const matA = math.matrix(A);
-        const eigs = math.eigs(matA);
+        let eigs: { values: math.MathCollection; eigenvectors?: { value: Scalar; vector: Scalar[] }[] };
+        try {
+            eigs = math.eigs(matA) as typeof eigs;
+        } catch {
+            // Some defective matrices make the eigenvector solver give up; the values are enough for the fallback.
+            eigs = math.eigs(matA, { eigenvectors: false });
+        }
 
-        if (!eigs.values || !eigs.eigenvectors) {
+        if (!eigs.values) {
             return null;
         }
 
-        const eigenValues = math.matrix(eigs.values).toArray() as (number | math.Complex)[];
-        const eigenvectorArrays = eigs.eigenvectors.map((e: any) => e.vector);
-        const P = math.transpose(math.matrix(eigenvectorArrays));
-        const Pinv = math.inv(P);
+        const values = math.matrix(eigs.values).toArray() as Scalar[];
+        // eigs hands back vectors in the same container type as its input; work with plain arrays.
+        const eigenvectors = eigs.eigenvectors?.map(entry => ({
+            value: entry.value,
+            vector: math.matrix(entry.vector).toArray() as Scalar[],
+        }));
+        const diagonalization = eigenvectors ? createDiagonalization(eigenvectors, A.length) : null;
+        const method: EvaluationMethod = diagonalization ? 'diagonalization' : 'jordan';
+        const spectral = diagonalization ?? createJordanInterpolation(A, values);
+        // The flow of x' = Ax is computed directly; it needs no eigendecomposition at all.
+        const evaluateFlow: MatrixFunction = (t) =>
+            (math.expm(math.multiply(matA, t) as math.Matrix) as math.Matrix).toArray() as Scalar[][];
+        const getMethod = (options?: TransformOptions): EvaluationMethod => methodForMode(options, method);
+        // Computed on first use; undefined means not attempted yet, null means A is singular.
+        let evaluatePolar: MatrixFunction | null | undefined;
+        const polarFunction = (): MatrixFunction | null => {
+            if (evaluatePolar === undefined) {
+                evaluatePolar = createPolarInterpolation(A);
+            }
+            return evaluatePolar;
+        };
 
-        const cache = new Map<string, Map<number, Matrix3>>();
+        const cache = new Map<string, Map<number, CachedMatrix>>();
 
-        const getOrCreateMatrix = (t: number, options?: TransformOptions): Matrix3 | null => {
+        const getOrCreateEntry = (t: number, options?: TransformOptions): CachedMatrix => {
             const k = optionKey(options);
-            const optionCache = cache.get(k) ?? new Map<number, Matrix3>();
+            const optionCache = cache.get(k) ?? new Map<number, CachedMatrix>();
             if (!cache.has(k)) {
                 cache.set(k, optionCache);
             }
             const tKey = timeKey(t);
             if (!Number.isFinite(tKey)) {
-                return null;
+                return { matrix: null, residual: null };
             }
             if (optionCache.has(tKey)) {
                 return optionCache.get(tKey)!;
             }
 
-            const diagValues = eigenValues.map(lambda => interpolateEigenvalue(lambda, t, options));
-            const Dt = math.diag(diagValues);
-            const At = math.multiply(math.multiply(P, Dt), Pinv) as math.Matrix;
-
-            if (!At || typeof At.toArray !== 'function') {
-                return null;
+            const mode = resolveMode(options);
+            const evaluate = mode === 'flow'
+                ? evaluateFlow
+                : mode === 'polar'
+                    ? polarFunction()
+                    : usesRealLogarithm(options) && !spectral.hasRealLogarithm
+                        ? null
+                        : spectral.evaluate;
+            if (!evaluate) {
+                const unavailable: CachedMatrix = { matrix: null, residual: null };
+                optionCache.set(tKey, unavailable);
+                return unavailable;
             }
-            const resultArray = At.toArray() as (number | math.Complex)[][];
-            const realMatrix = resultArray.map(row => row.map(toReal)) as Matrix3;
-            optionCache.set(tKey, realMatrix);
-            return realMatrix;
+            const resultArray = evaluate(t, options);
+            const realMatrix = resultArray.map(row => row.map(toReal)) as Matrix;
+            const isFiniteMatrix = realMatrix.every(row => row.every(Number.isFinite));
+            const residual = isFiniteMatrix
+                ? Math.max(...resultArray.flat().map(value => Math.abs(imaginaryPart(value))))
+                : null;
+            const refused = resolveBranch(options) === 'refuse'
+                && residual !== null
+                && residual > IMAGINARY_RESIDUAL_TOLERANCE;
+            const entry: CachedMatrix = {
+                matrix: isFiniteMatrix && !refused ? realMatrix : null,
+                residual,
+            };
+            optionCache.set(tKey, entry);
+            return entry;
         };
 
-        const applyToVector = (t: number, v: Vector3, options?: TransformOptions): Vector3 | null => {
+        const getOrCreateMatrix = (t: number, options?: TransformOptions): Matrix | null =>
+            getOrCreateEntry(t, options).matrix;
+
+        const applyToVector = (t: number, v: Vector, options?: TransformOptions): Vector | null => {
             const mat = getOrCreateMatrix(t, options);
             if (!mat) {
                 return null;
@@ -100,8 +712,24 @@ export function createMatrixEvaluator(A: Matrix3): MatrixEvaluator | null {
         };
 
         return {
-            eigenValues,
+            eigenValues: spectral.eigenValues,
+            eigenvectors: eigenvectors ?? [],
+            method,
+            hasNegativeEigenvalues: spectral.eigenValues.some(isNegativeReal),
+            hasRealLogarithm: spectral.hasRealLogarithm,
+            getMethod,
+            getEigenvaluesAt: (t, options) => {
+                const mode = resolveMode(options);
+                if (mode === 'polar') {
+                    const mat = getOrCreateMatrix(t, options);
+                    return mat ? eigenvaluesOf(mat) : [];
+                }
+                return mode === 'flow'
+                    ? spectral.eigenValues.map(lambda => interpolateEigenvalue(lambda, t, options))
+                    : spectral.eigenvaluesAt(t, options);
+            },
             getMatrixAt: getOrCreateMatrix,
+            getImaginaryResidual: (t, options) => getOrCreateEntry(t, options).residual,
             applyToVector,
         };
     } catch (error) {
@@ -110,31 +738,927 @@ export function createMatrixEvaluator(A: Matrix3): MatrixEvaluator | null {
     }
 }
 
-export function calculateAt(A: Matrix3, t: number, options: TransformOptions = {}): Matrix3 | null {
+export const multiplyMatrices = (a: Matrix, b: Matrix): Matrix =>
+    a.map(row => b[0].map((_, col) => row.reduce((sum, value, k) => sum + value * b[k][col], 0)));
+
+const LOG_SERIES_TERMS = 30;
+const LOG_MAX_SQUARE_ROOTS = 40;
+
+/**
+ * Principal matrix logarithm by inverse scaling and squaring: take square roots until
+ * X is close to I, sum the series for log(I + E), then scale back up.
+ * Returns null when A has no real principal logarithm (e.g. a negative eigenvalue).
+ */
+export function matrixLogarithm(A: Matrix): Matrix | null {
+    try {
+        const identity = math.identity(A.length) as math.Matrix;
+        let X = math.matrix(A);
+        let squareRoots = 0;
+        while ((math.norm(math.subtract(X, identity) as math.Matrix, 'fro') as number) > 0.25) {
+            if (squareRoots >= LOG_MAX_SQUARE_ROOTS) {
+                return null;
+            }
+            X = math.sqrtm(X) as math.Matrix;
+            squareRoots++;
+        }
+        // log(I + E) = E - E²/2 + E³/3 - …
+        const E = math.subtract(X, identity) as math.Matrix;
+        let term = E;
+        let sum = E;
+        for (let k = 2; k <= LOG_SERIES_TERMS; k++) {
+            term = math.multiply(term, E) as math.Matrix;
+            sum = math.add(sum, math.multiply(term, (k % 2 === 0 ? -1 : 1) / k)) as math.Matrix;
+        }
+        const scaled = (math.multiply(sum, Math.pow(2, squareRoots)) as math.Matrix).toArray() as Scalar[][];
+        const residual = Math.max(...scaled.flat().map(value => Math.abs(imaginaryPart(value))));
+        const result = scaled.map(row => row.map(toReal)) as Matrix;
+        if (residual > IMAGINARY_RESIDUAL_TOLERANCE || !result.every(row => row.every(Number.isFinite))) {
+            return null;
+        }
+        return result;
+    } catch {
+        return null;
+    }
+}
+
+const eigenvaluesOf = (matrix: Matrix): Scalar[] => {
+    try {
+        return math.matrix(math.eigs(matrix, { eigenvectors: false }).values).toArray() as Scalar[];
+    } catch {
+        return [];
+    }
+};
+
+/** Eigenpairs of A; empty when the eigenvector solver gives up (e.g. on a defective matrix). */
+export function eigenPairsOf(A: Matrix): EigenPair[] {
+    try {
+        const { eigenvectors } = math.eigs(A) as unknown as { eigenvectors: { value: Scalar; vector: math.MathCollection }[] };
+        return eigenvectors.map(entry => ({ value: entry.value, vector: math.matrix(entry.vector).toArray() as Scalar[] }));
+    } catch {
+        return [];
+    }
+}
+
+export interface InvariantLine {
+    value: number;
+    /** Unit eigenvector. */
+    direction: Vector;
+}
+
+export interface InvariantPlane {
+    value: { re: number; im: number };
+    /** Re v and Im v of the eigenvector for λ = a + bi (b > 0); A rotates and scales within their span. */
+    basis: [Vector, Vector];
+}
+
+const PARALLEL_TOLERANCE = 1e-6;
+
+/**
+ * Lines through real eigenvectors and planes spanned by complex eigenvector pairs. Each conjugate pair
+ * gives one plane; repeated eigenvalues with parallel eigenvectors give one line.
+ */
+export function invariantSubspaces(pairs: EigenPair[]): { lines: InvariantLine[]; planes: InvariantPlane[] } {
+    const lines: InvariantLine[] = [];
+    const planes: InvariantPlane[] = [];
+    const norm = (v: Vector) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+    for (const { value, vector } of pairs) {
+        const re = toReal(value);
+        const im = imaginaryPart(value);
+        if (!Number.isFinite(re) || !Number.isFinite(im)) continue;
+        if (Math.abs(im) <= REAL_AXIS_TOLERANCE * Math.max(1, scalarAbs(value))) {
+            const real = vector.map(toReal);
+            const length = norm(real);
+            if (!(length > 0)) continue;
+            const direction = real.map(component => component / length);
+            const duplicate = lines.some(line =>
+                Math.abs(Math.abs(line.direction.reduce((sum, component, i) => sum + component * direction[i], 0)) - 1) < PARALLEL_TOLERANCE
+            );
+            if (!duplicate) lines.push({ value: re, direction });
+        } else if (im > 0) {
+            const u = vector.map(toReal);
+            const w = vector.map(imaginaryPart);
+            if (norm(u) > 0 && norm(w) > 0) planes.push({ value: { re, im }, basis: [u, w] });
+        }
+    }
+    return { lines, planes };
+}
+
+/**
+ * Affine map x ↦ Ax + b in homogeneous coordinates. Powers of [[A, b], [0, 1]] rotate and
+ * translate together (a screw motion); the flow exponentiates [[A, b], [0, 0]] instead, which
+ * solves x' = Ax + b. Polar mode pairs the polar path of A with the straight translation t·b.
+ */
+export function createAffineEvaluator(A: Matrix, b: Vector): MatrixEvaluator | null {
+    const linear = createMatrixEvaluator(A);
+    const power = createMatrixEvaluator(homogeneousMatrix(A, b, 1));
+    const flow = createMatrixEvaluator(homogeneousMatrix(A, b, 0));
+    if (!linear || !power || !flow) {
+        return null;
+    }
+    const evaluatorFor = (options?: TransformOptions): MatrixEvaluator =>
+        resolveMode(options) === 'flow' ? flow : power;
+
+    const getMatrixAt = (t: number, options?: TransformOptions): Matrix | null => {
+        if (resolveMode(options) === 'polar') {
+            const linearPart = linear.getMatrixAt(t, options);
+            return linearPart ? homogeneousMatrix(linearPart, b.map(component => component * t)) : null;
+        }
+        return evaluatorFor(options).getMatrixAt(t, options);
+    };
+
+    return {
+        eigenValues: power.eigenValues,
+        // The homogeneous eigenvectors mix in the translation; the linear part's directions are the ones to draw.
+        eigenvectors: linear.eigenvectors,
+        method: power.method,
+        hasNegativeEigenvalues: power.hasNegativeEigenvalues,
+        hasRealLogarithm: power.hasRealLogarithm,
+        getMethod: (options) => evaluatorFor(options).getMethod(options),
+        getEigenvaluesAt: (t, options) => resolveMode(options) === 'polar'
+            ? [...linear.getEigenvaluesAt(t, options), 1]
+            : evaluatorFor(options).getEigenvaluesAt(t, options),
+        getMatrixAt,
+        getImaginaryResidual: (t, options) => resolveMode(options) === 'polar'
+            ? linear.getImaginaryResidual(t, options)
+            : evaluatorFor(options).getImaginaryResidual(t, options),
+        applyToVector: (t, v, options) => {
+            const mat = getMatrixAt(t, options);
+            return mat ? applyHomogeneous(mat, v) : null;
+        },
+    };
+}
+
+/**
+ * Path between two transformations: A·(A⁻¹B)^t for the 'relative' blend, or
+ * expm((1-t)·log A + t·log B) for 'logEuclidean'. Both start at A (t = 0) and end at B (t = 1).
+ */
+export function createGeodesicEvaluator(A: Matrix, B: Matrix, blend: GeodesicBlend): MatrixEvaluator | null {
+    try {
+        const relative = (math.multiply(math.inv(A), B) as number[][]) as Matrix;
+        const applyToVectorWith = (getMatrixAt: MatrixEvaluator['getMatrixAt']): MatrixEvaluator['applyToVector'] =>
+            (t, v, options) => {
+                const mat = getMatrixAt(t, options);
+                return mat ? multiplyMatrixVector(mat, v) : null;
+            };
+
+        if (blend === 'logEuclidean') {
+            const logA = matrixLogarithm(A);
+            const logB = matrixLogarithm(B);
+            if (!logA || !logB) {
+                return null;
+            }
+            const generator = math.subtract(logB, logA) as number[][];
+            const cache = new Map<number, Matrix | null>();
+            const getMatrixAt = (t: number): Matrix | null => {
+                const tKey = timeKey(t);
+                if (!Number.isFinite(tKey)) return null;
+                if (cache.has(tKey)) return cache.get(tKey)!;
+                const blended = math.add(math.multiply(logA, 1 - t), math.multiply(logB, t)) as number[][];
+                const result = (math.expm(math.matrix(blended)) as math.Matrix).toArray() as Matrix;
+                const entry = result.every(row => row.every(Number.isFinite)) ? result : null;
+                cache.set(tKey, entry);
+                return entry;
+            };
+            return {
+                // γ(t) = expm(log A + t·(log B − log A)); A⁻¹B does not drive this path unless A and B commute.
+                eigenValues: eigenvaluesOf(generator),
+                eigenvectors: [],
+                method: 'logEuclidean',
+                hasNegativeEigenvalues: false,
+                hasRealLogarithm: true,
+                getMethod: () => 'logEuclidean',
+                getEigenvaluesAt: (t) => {
+                    const mat = getMatrixAt(t);
+                    return mat ? eigenvaluesOf(mat) : [];
+                },
+                getMatrixAt,
+                getImaginaryResidual: (t) => (getMatrixAt(t) ? 0 : null),
+                applyToVector: applyToVectorWith(getMatrixAt),
+            };
+        }
+
+        const inner = createMatrixEvaluator(relative);
+        if (!inner) {
+            return null;
+        }
+        const getMatrixAt = (t: number, options?: TransformOptions): Matrix | null => {
+            const power = inner.getMatrixAt(t, options);
+            return power ? multiplyMatrices(A, power) : null;
+        };
+        return {
+            ...inner,
+            // A·(A⁻¹B)^t does not share the eigenvectors of A⁻¹B; they move with t.
+            eigenvectors: [],
+            getEigenvaluesAt: (t, options) => {
+                const mat = getMatrixAt(t, options);
+                return mat ? eigenvaluesOf(mat) : [];
+            },
+            getMatrixAt,
+            applyToVector: applyToVectorWith(getMatrixAt),
+        };
+    } catch (error) {
+        console.error('Geodesic evaluator error:', error);
+        return null;
+    }
+}
+
+export interface ChainSegmentInput {
+    matrix: Matrix;
+    duration: number;
+}
+
+export interface ChainEvaluator extends MatrixEvaluator {
+    /** Start time of every segment followed by the end time of the last one. */
+    boundaries: number[];
+    segmentAt: (t: number) => { index: number; localT: number };
+}
+
+/**
+ * Storyboard of transformations: segment k runs M_k^τ for τ ∈ [0, 1] over its own slice of t,
+ * applied on top of the completed result of every earlier segment.
+ */
+export function createChainEvaluator(segments: ChainSegmentInput[]): ChainEvaluator | null {
+    const n = segments[0]?.matrix.length ?? 0;
+    if (n === 0 || segments.some(segment => segment.matrix.length !== n)) {
+        return null;
+    }
+    const evaluators = segments.map(segment => createMatrixEvaluator(segment.matrix));
+    if (evaluators.some(evaluator => !evaluator)) {
+        return null;
+    }
+    const segmentEvaluators = evaluators as MatrixEvaluator[];
+    const durations = segments.map(segment =>
+        Number.isFinite(segment.duration) && segment.duration > 0 ? segment.duration : 1
+    );
+    const boundaries = durations.reduce<number[]>((acc, duration) => [...acc, acc[acc.length - 1] + duration], [0]);
+
+    const segmentAt = (t: number) => {
+        let index = 0;
+        while (index < segments.length - 1 && t >= boundaries[index + 1]) {
+            index++;
+        }
+        return { index, localT: (t - boundaries[index]) / durations[index] };
+    };
+
+    // prefix[k] is the completed result of segments 0…k-1; it depends on the evaluation options.
+    const prefixCache = new Map<string, (Matrix | null)[]>();
+    const prefixFor = (options?: TransformOptions): (Matrix | null)[] => {
+        const key = optionKey(options);
+        if (!prefixCache.has(key)) {
+            const prefix: (Matrix | null)[] = [identityMatrix(n)];
+            segmentEvaluators.forEach((evaluator, k) => {
+                const completed = evaluator.getMatrixAt(1, options);
+                const previous = prefix[k];
+                prefix.push(completed && previous ? multiplyMatrices(completed, previous) : null);
+            });
+            prefixCache.set(key, prefix);
+        }
+        return prefixCache.get(key)!;
+    };
+
+    const getMatrixAt = (t: number, options?: TransformOptions): Matrix | null => {
+        const { index, localT } = segmentAt(t);
+        const local = segmentEvaluators[index].getMatrixAt(localT, options);
+        const previous = prefixFor(options)[index];
+        return local && previous ? multiplyMatrices(local, previous) : null;
+    };
+
+    const method: EvaluationMethod = segmentEvaluators.some(evaluator => evaluator.method === 'jordan')
+        ? 'jordan'
+        : 'diagonalization';
+    const total = segments.reduce<Matrix>((acc, segment) => multiplyMatrices(segment.matrix, acc), identityMatrix(n));
+
+    return {
+        eigenValues: eigenvaluesOf(total),
+        eigenvectors: [],
+        method,
+        hasNegativeEigenvalues: segmentEvaluators.some(evaluator => evaluator.hasNegativeEigenvalues),
+        hasRealLogarithm: segmentEvaluators.every(evaluator => evaluator.hasRealLogarithm),
+        getMethod: (options) => methodForMode(options, method),
+        getEigenvaluesAt: (t, options) => {
+            const mat = getMatrixAt(t, options);
+            return mat ? eigenvaluesOf(mat) : [];
+        },
+        getMatrixAt,
+        getImaginaryResidual: (t, options) => {
+            const { index, localT } = segmentAt(t);
+            return segmentEvaluators[index].getImaginaryResidual(localT, options);
+        },
+        applyToVector: (t, v, options) => {
+            const mat = getMatrixAt(t, options);
+            return mat ? multiplyMatrixVector(mat, v) : null;
+        },
+        boundaries,
+        segmentAt,
+    };
+}
+
+// --- Stability classification ---
+
+export type StabilityKind = 'stableNode' | 'unstableNode' | 'saddle' | 'spiralSink' | 'spiralSource' | 'center' | 'degenerate';
+
+export const STABILITY_LABELS: Record<StabilityKind, string> = {
+    stableNode: 'stable node',
+    unstableNode: 'unstable node',
+    saddle: 'saddle',
+    spiralSink: 'spiral sink',
+    spiralSource: 'spiral source',
+    center: 'center',
+    degenerate: 'degenerate',
+};
+
+const FLOW_DESCRIPTIONS: Record<StabilityKind, string> = {
+    stableNode: 'Every Re λ < 0: trajectories slide straight into the origin.',
+    unstableNode: 'Every Re λ > 0: trajectories run straight away from the origin.',
+    saddle: 'Re λ has both signs: trajectories come in along the stable directions and leave along the unstable ones.',
+    spiralSink: 'Every Re λ < 0 and some λ are complex: trajectories spiral into the origin.',
+    spiralSource: 'Every Re λ > 0 and some λ are complex: trajectories spiral away from the origin.',
+    center: 'Every λ is purely imaginary: trajectories circle the origin on closed orbits.',
+    degenerate: 'Some Re λ = 0: the flow neither grows nor decays along that direction, so expect lines of equilibria or slow drift.',
+};
+
+const MAP_DESCRIPTIONS: Record<StabilityKind, string> = {
+    stableNode: 'Every |λ| < 1: iterates shrink straight into the origin (flipping sides where λ < 0).',
+    unstableNode: 'Every |λ| > 1: iterates are pushed straight away from the origin.',
+    saddle: '|λ| is below 1 in some directions and above 1 in others: iterates approach, then escape.',
+    spiralSink: 'Every |λ| < 1 and some λ are complex: iterates rotate inward to the origin.',
+    spiralSource: 'Every |λ| > 1 and some λ are complex: iterates rotate outward.',
+    center: 'Every λ lies on the unit circle: iterates rotate without growing or shrinking.',
+    degenerate: 'Some |λ| = 1: that direction is neither attracted nor repelled, so the linear part alone does not settle stability.',
+};
+
+export interface StabilityClassification {
+    /** x' = Ax, decided by the signs of Re λ. */
+    flow: { kind: StabilityKind; description: string };
+    /** x_{k+1} = A·x_k, decided by |λ| against 1. */
+    map: { kind: StabilityKind; description: string };
+    spectralRadius: number;
+    trace: number;
+    determinant: number;
+}
+
+const STABILITY_TOLERANCE = 1e-9;
+
+const classifyBySign = (signs: number[], complex: boolean, allComplex: boolean): StabilityKind => {
+    if (signs.some(sign => sign === 0)) {
+        return allComplex && signs.every(sign => sign === 0) ? 'center' : 'degenerate';
+    }
+    if (signs.every(sign => sign < 0)) return complex ? 'spiralSink' : 'stableNode';
+    if (signs.every(sign => sign > 0)) return complex ? 'spiralSource' : 'unstableNode';
+    return 'saddle';
+};
+
+/**
+ * Phase-portrait type of the origin for both readings of A. A center needs every eigenvalue on the
+ * boundary and none of them real; a real eigenvalue on the boundary makes the case degenerate.
+ */
+export function classifyLinearSystem(A: Matrix): StabilityClassification | null {
+    const values = eigenvaluesOf(A);
+    if (values.length !== A.length || values.some(value => !Number.isFinite(toReal(value)) || !Number.isFinite(imaginaryPart(value)))) {
+        return null;
+    }
+    const isComplex = (value: Scalar) => Math.abs(imaginaryPart(value)) > STABILITY_TOLERANCE * Math.max(1, scalarAbs(value));
+    const complex = values.some(isComplex);
+    const flowSigns = values.map(value => {
+        const re = toReal(value);
+        return Math.abs(re) <= STABILITY_TOLERANCE * Math.max(1, scalarAbs(value)) ? 0 : Math.sign(re);
+    });
+    const mapSigns = values.map(value => {
+        const gap = scalarAbs(value) - 1;
+        return Math.abs(gap) <= STABILITY_TOLERANCE ? 0 : Math.sign(gap);
+    });
+    const allComplex = values.every(isComplex);
+    const flowKind = classifyBySign(flowSigns, complex, allComplex);
+    const mapKind = classifyBySign(mapSigns, complex, allComplex);
+    let determinant = NaN;
+    try {
+        determinant = math.det(A);
+    } catch {
+        // Leaves NaN; the classification itself only needs the eigenvalues.
+    }
+    return {
+        flow: { kind: flowKind, description: FLOW_DESCRIPTIONS[flowKind] },
+        map: { kind: mapKind, description: MAP_DESCRIPTIONS[mapKind] },
+        spectralRadius: Math.max(...values.map(scalarAbs)),
+        trace: A.reduce((sum, row, i) => sum + row[i], 0),
+        determinant,
+    };
+}
+
+// --- Discrete iteration ---
+
+export interface IterationOrbit {
+    /** x_0 … x_N; shorter when the orbit blows up. */
+    points: Vector[];
+    diverged: boolean;
+}
+
+const ORBIT_DIVERGENCE_LIMIT = 1e6;
+
+/** Orbit of the recurrent map x_{k+1} = f(A·x_k + b). */
+export function iterateMap(
+    A: Matrix,
+    b: Vector,
+    activationFn: VectorActivationFunction,
+    x0: Vector,
+    steps: number
+): IterationOrbit {
+    const points: Vector[] = [x0];
+    for (let k = 0; k < steps; k++) {
+        const linear = multiplyMatrixVector(A, points[k]).map((value, i) => value + (b[i] ?? 0));
+        const next = activationFn(linear);
+        if (!next.every(value => Number.isFinite(value) && Math.abs(value) < ORBIT_DIVERGENCE_LIMIT)) {
+            return { points, diverged: true };
+        }
+        points.push(next);
+    }
+    return { points, diverged: false };
+}
+
+export interface OrbitCycle {
+    /** 1 for a fixed point. */
+    period: number;
+    /** Last point of the orbit, which lies on the cycle. */
+    point: Vector;
+    /** First step from which the orbit repeats with this period. */
+    since: number;
+}
+
+const vectorDistance = (a: Vector, b: Vector): number =>
+    Math.hypot(...a.map((value, i) => value - (b[i] ?? 0)));
+
+/** Looks for the shortest period p ≤ maxPeriod with x_k ≈ x_{k+p} at the end of the orbit. */
+export function detectCycle(points: Vector[], tolerance = 1e-6, maxPeriod = 8): OrbitCycle | null {
+    const last = points.length - 1;
+    for (let period = 1; period <= maxPeriod && 2 * period <= last; period++) {
+        const repeats = (k: number) =>
+            vectorDistance(points[k], points[k + period]) <= tolerance * Math.max(1, Math.hypot(...points[k]));
+        // A full period must already repeat, otherwise a slow drift could pass as a cycle.
+        let matches = true;
+        for (let k = last - period; k > last - 2 * period; k--) {
+            if (!repeats(k)) {
+                matches = false;
+                break;
+            }
+        }
+        if (!matches) continue;
+        let since = last - 2 * period + 1;
+        while (since > 0 && repeats(since - 1)) {
+            since--;
+        }
+        return { period, point: points[last], since };
+    }
+    return null;
+}
+
+/** Fixed point of the linear recurrence x = A·x + b, i.e. (I - A)⁻¹·b; null when I - A is singular. */
+export function linearFixedPoint(A: Matrix, b: Vector): Vector | null {
+    try {
+        const system = math.subtract(identityMatrix(A.length), A) as number[][];
+        const solution = math.lusolve(system, b) as number[][];
+        const point = solution.map(row => row[0]);
+        return point.every(Number.isFinite) ? point : null;
+    } catch {
+        return null;
+    }
+}
+
+// --- Layered network ---
+
+export interface NetworkLayerInput {
+    matrix: Matrix;
+    bias: Vector;
+    activationFn: VectorActivationFunction;
+}
+
+export interface LayerTrace {
+    /** W·x + b */
+    preActivation: Vector;
+    /** f(W·x + b), the input of the next layer. */
+    output: Vector;
+}
+
+export type LayerPhase = 'linear' | 'activation';
+
+export interface NetworkEvaluator {
+    /** Start of every half-layer followed by the end of the last layer. */
+    boundaries: number[];
+    layerAt: (t: number) => { index: number; phase: LayerPhase; localT: number };
+    forward: (x: Vector) => LayerTrace[];
+    applyToVector: (t: number, x: Vector, options?: TransformOptions) => Vector | null;
+}
+
+/**
+ * Layer k spans t ∈ [k, k + 1]: the first half runs W^s·x + s·b with the selected evaluation mode,
+ * the second half blends z = W·x + b into f(z).
+ */
+export function createNetworkEvaluator(layers: NetworkLayerInput[]): NetworkEvaluator | null {
+    const n = layers[0]?.matrix.length ?? 0;
+    if (n === 0 || layers.some(layer => layer.matrix.length !== n)) {
+        return null;
+    }
+    const evaluators = layers.map(layer => createMatrixEvaluator(layer.matrix));
+    if (evaluators.some(evaluator => !evaluator)) {
+        return null;
+    }
+    const layerEvaluators = evaluators as MatrixEvaluator[];
+    const boundaries = Array.from({ length: 2 * layers.length + 1 }, (_, i) => i / 2);
+
+    const layerAt = (t: number) => {
+        const index = Math.min(Math.max(Math.floor(t), 0), layers.length - 1);
+        const half = 2 * Math.min(Math.max(t - index, 0), 1);
+        return half <= 1
+            ? { index, phase: 'linear' as const, localT: half }
+            : { index, phase: 'activation' as const, localT: half - 1 };
+    };
+
+    const forward = (x: Vector): LayerTrace[] => {
+        const traces: LayerTrace[] = [];
+        let input = x;
+        for (const layer of layers) {
+            const preActivation = multiplyMatrixVector(layer.matrix, input).map((value, i) => value + (layer.bias[i] ?? 0));
+            const output = layer.activationFn(preActivation);
+            traces.push({ preActivation, output });
+            input = output;
+        }
+        return traces;
+    };
+
+    // A path samples every t for the same x, so the last forward pass is reused until x changes.
+    let lastPass: { input: Vector; traces: LayerTrace[] } | null = null;
+    const tracesFor = (x: Vector): LayerTrace[] => {
+        if (!lastPass || lastPass.input.length !== x.length || lastPass.input.some((value, i) => value !== x[i])) {
+            lastPass = { input: [...x], traces: forward(x) };
+        }
+        return lastPass.traces;
+    };
+
+    const applyToVector = (t: number, x: Vector, options?: TransformOptions): Vector | null => {
+        const { index, phase, localT } = layerAt(t);
+        const traces = tracesFor(x);
+        if (phase === 'activation') {
+            const { preActivation, output } = traces[index];
+            return preActivation.map((value, i) => (1 - localT) * value + localT * output[i]);
+        }
+        const input = index === 0 ? x : traces[index - 1].output;
+        // e^{sW} ends at e^W, not W, so the flow would jump to the activation phase's start; use powers instead.
+        const layerOptions = resolveMode(options) === 'flow' ? { ...options, mode: 'power' as const } : options;
+        const mat = layerEvaluators[index].getMatrixAt(localT, layerOptions);
+        if (!mat) return null;
+        const bias = layers[index].bias;
+        return multiplyMatrixVector(mat, input).map((value, i) => value + localT * (bias[i] ?? 0));
+    };
+
+    return { boundaries, layerAt, forward, applyToVector };
+}
+
+// --- ODE integration ---
+
+export type VectorField = (x: Vector) => Vector;
+
+export interface OdeOptions {
+    solver: OdeSolver;
+    /** Largest RK4 step; RK45 uses it as its first trial step. */
+    step: number;
+    /** RK45 tolerance on the local error, relative to |x| once |x| > 1. */
+    tolerance: number;
+}
+
+export interface OdeTrajectory {
+    /** x at every requested time; stops early when integration fails. */
+    points: Vector[];
+    /** Last step size used on each interval between consecutive times. */
+    stepSizes: number[];
+    /** Largest local error estimate on each interval. */
+    errors: number[];
+    failed: boolean;
+}
+
+const ODE_DIVERGENCE_LIMIT = 1e6;
+const ODE_MAX_STEPS_PER_INTERVAL = 10000;
+
+const axpy = (x: Vector, h: number, terms: [number, Vector][]): Vector =>
+    x.map((value, i) => value + h * terms.reduce((sum, [weight, k]) => sum + weight * k[i], 0));
+
+const maxNorm = (v: Vector): number => v.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+const rk4Step = (field: VectorField, x: Vector, h: number): Vector => {
+    const k1 = field(x);
+    const k2 = field(axpy(x, h / 2, [[1, k1]]));
+    const k3 = field(axpy(x, h / 2, [[1, k2]]));
+    const k4 = field(axpy(x, h, [[1, k3]]));
+    return axpy(x, h / 6, [[1, k1], [2, k2], [2, k3], [1, k4]]);
+};
+
+// Dormand–Prince 5(4) tableau.
+const DP_A: number[][] = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+const dormandPrinceStep = (field: VectorField, x: Vector, h: number): { next: Vector; error: number } => {
+    const k: Vector[] = [];
+    for (let stage = 0; stage < DP_A.length; stage++) {
+        k.push(field(axpy(x, h, DP_A[stage].map((weight, j) => [weight, k[j]] as [number, Vector]))));
+    }
+    const next = axpy(x, h, DP_B5.map((weight, j) => [weight, k[j]] as [number, Vector]));
+    const lower = axpy(x, h, DP_B4.map((weight, j) => [weight, k[j]] as [number, Vector]));
+    return { next, error: maxNorm(next.map((value, i) => value - lower[i])) };
+};
+
+const isUsable = (x: Vector) => x.every(value => Number.isFinite(value) && Math.abs(value) < ODE_DIVERGENCE_LIMIT);
+
+/**
+ * Integrates the autonomous system x' = F(x) from x(times[0]) = x0 and samples it at every time.
+ * RK4 estimates its error by step doubling; RK45 (Dormand–Prince) adapts h to the tolerance.
+ */
+export function integrateOde(field: VectorField, x0: Vector, times: number[], options: OdeOptions): OdeTrajectory {
+    const points: Vector[] = [x0];
+    const stepSizes: number[] = [];
+    const errors: number[] = [];
+    const maxStep = Math.max(Math.abs(options.step), 1e-6);
+    let h = maxStep;
+
+    for (let i = 1; i < times.length; i++) {
+        const span = times[i] - times[i - 1];
+        const direction = Math.sign(span) || 1;
+        let x = points[i - 1];
+        let remaining = Math.abs(span);
+        let intervalError = 0;
+        let lastStep = 0;
+        let steps = 0;
+
+        while (remaining > 1e-12) {
+            if (++steps > ODE_MAX_STEPS_PER_INTERVAL) {
+                return { points, stepSizes, errors, failed: true };
+            }
+            if (options.solver === 'rk4') {
+                const size = Math.min(maxStep, remaining);
+                const half = rk4Step(field, rk4Step(field, x, direction * size / 2), direction * size / 2);
+                const full = rk4Step(field, x, direction * size);
+                intervalError = Math.max(intervalError, maxNorm(half.map((value, j) => value - full[j])) / 15);
+                x = half;
+                remaining -= size;
+                lastStep = size;
+            } else {
+                const size = Math.min(h, remaining);
+                const { next, error } = dormandPrinceStep(field, x, direction * size);
+                const scale = options.tolerance * Math.max(1, maxNorm(x), maxNorm(next));
+                const ratio = Number.isFinite(error) ? error / scale : Infinity;
+                if (ratio <= 1) {
+                    x = next;
+                    remaining -= size;
+                    lastStep = size;
+                    intervalError = Math.max(intervalError, error);
+                }
+                const factor = ratio === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(ratio, -1 / 5)));
+                h = size * factor;
+                if (h < 1e-12) {
+                    return { points, stepSizes, errors, failed: true };
+                }
+            }
+            if (!isUsable(x)) {
+                return { points, stepSizes, errors, failed: true };
+            }
+        }
+        points.push(x);
+        stepSizes.push(lastStep);
+        errors.push(intervalError);
+    }
+    return { points, stepSizes, errors, failed: false };
+}
+
+// --- Field overlay ---
+
+export interface FieldGlyph {
+    position: Vector3;
+    velocity: Vector3;
+}
+
+const STREAMLINE_SEEDS_PER_AXIS = 5;
+const STREAMLINE_DURATION = 3;
+const STREAMLINE_SAMPLES = 60;
+
+const fieldAxisIndex = { x: 0, y: 1, z: 2 } as const;
+
+/**
+ * Samples x' = F(x) on a scene-space lattice (or one slice of it) and projects the velocities.
+ * Streamlines start from a coarser subset of the samples and run both ways until they leave
+ * 1.5× the sampled cube. In 2D the lattice is flat, so it always lies in the xy-plane.
+ */
+export function sampleFieldOverlay(
+    field: VectorField,
+    projection: ProjectionConfig,
+    n: number,
+    config: FieldOverlayConfig
+): { glyphs: FieldGlyph[]; streamlines: Vector3[][]; spacing: number } {
+    const density = Math.max(2, Math.round(config.density));
+    const extent = Math.max(config.extent, 1e-3);
+    const ticks = Array.from({ length: density }, (_, k) => -extent + (2 * extent * k) / (density - 1));
+    const spacing = (2 * extent) / (density - 1);
+    const planar = n === 2;
+    const sliceAxis = planar ? 2 : fieldAxisIndex[config.sliceAxis];
+    const slicePosition = planar ? 0 : config.slicePosition;
+    const flat = planar || config.layout === 'slice';
+
+    const lattice: { point: Vector3; seed: boolean }[] = [];
+    const seedStride = Math.max(1, Math.ceil(density / STREAMLINE_SEEDS_PER_AXIS));
+    const axisTicks = (axis: number) => (flat && axis === sliceAxis ? [slicePosition] : ticks);
+    axisTicks(0).forEach((x, i) => axisTicks(1).forEach((y, j) => axisTicks(2).forEach((z, k) => {
+        const indices = [i, j, k].filter((_, axis) => !(flat && axis === sliceAxis));
+        lattice.push({ point: [x, y, z], seed: indices.every(index => index % seedStride === 0) });
+    })));
+
+    const glyphs: FieldGlyph[] = [];
+    for (const { point } of lattice) {
+        try {
+            const velocity = projectVector(field(liftVector(point, projection, n)), projection);
+            if (velocity.every(Number.isFinite)) glyphs.push({ position: point, velocity });
+        } catch {
+            // Points where the field is undefined are simply left empty.
+        }
+    }
+
+    const streamlines: Vector3[][] = [];
+    if (config.streamlines) {
+        const times = Array.from({ length: STREAMLINE_SAMPLES + 1 }, (_, k) => (STREAMLINE_DURATION * k) / STREAMLINE_SAMPLES);
+        const options: OdeOptions = { solver: 'rk4', step: STREAMLINE_DURATION / STREAMLINE_SAMPLES, tolerance: 1e-6 };
+        const reversed: VectorField = (x) => field(x).map(value => -value);
+        const inside = (p: Vector3) => p.every(value => Math.abs(value) <= 1.5 * extent);
+        const trace = (direction: VectorField, x0: Vector): Vector3[] => {
+            const projected: Vector3[] = [];
+            for (const x of integrateOde(direction, x0, times, options).points) {
+                const p = projectVector(x, projection);
+                if (!inside(p)) break;
+                projected.push(p);
+            }
+            return projected;
+        };
+        for (const { point, seed } of lattice) {
+            if (!seed) continue;
+            const x0 = liftVector(point, projection, n);
+            const line = [...trace(reversed, x0).reverse(), ...trace(field, x0).slice(1)];
+            if (line.length > 1) streamlines.push(line);
+        }
+    }
+
+    return { glyphs, streamlines, spacing };
+}
+
+/** Central-difference Jacobian ∂F_i/∂x_j at x. */
+export function numericalJacobian(field: VectorField, x: Vector, h = 1e-5): Matrix {
+    const columns = x.map((_, j) => {
+        const forward = field(x.map((value, k) => (k === j ? value + h : value)));
+        const backward = field(x.map((value, k) => (k === j ? value - h : value)));
+        return forward.map((value, i) => (value - backward[i]) / (2 * h));
+    });
+    return x.map((_, i) => columns.map(column => column[i]));
+}
+
+// --- Time-varying linear systems ---
+
+export type TimeVaryingMatrix = (t: number) => Matrix;
+
+export interface TransitionOptions {
+    integrator: TransitionIntegrator;
+    step: number;
+}
+
+const TRANSITION_CHECKPOINT_LIMIT = 20000;
+
+const addScaled = (X: Matrix, h: number, Y: Matrix): Matrix =>
+    X.map((row, i) => row.map((value, j) => value + h * Y[i][j]));
+
+const rk4TransitionStep = (A: TimeVaryingMatrix, t: number, Phi: Matrix, h: number): Matrix => {
+    const k1 = multiplyMatrices(A(t), Phi);
+    const k2 = multiplyMatrices(A(t + h / 2), addScaled(Phi, h / 2, k1));
+    const k3 = multiplyMatrices(A(t + h / 2), addScaled(Phi, h / 2, k2));
+    const k4 = multiplyMatrices(A(t + h), addScaled(Phi, h, k3));
+    return Phi.map((row, i) => row.map((value, j) => value + (h / 6) * (k1[i][j] + 2 * k2[i][j] + 2 * k3[i][j] + k4[i][j])));
+};
+
+const GAUSS_OFFSET = Math.sqrt(3) / 6;
+
+// Ω = h/2·(A₁ + A₂) + √3·h²/12·[A₂, A₁] from A at the two Gauss points; Φ ← expm(Ω)·Φ stays exact for constant A.
+const magnusStep = (A: TimeVaryingMatrix, t: number, Phi: Matrix, h: number): Matrix => {
+    const A1 = A(t + (0.5 - GAUSS_OFFSET) * h);
+    const A2 = A(t + (0.5 + GAUSS_OFFSET) * h);
+    const A2A1 = multiplyMatrices(A2, A1);
+    const A1A2 = multiplyMatrices(A1, A2);
+    const omega = A1.map((row, i) => row.map((value, j) =>
+        (h / 2) * (value + A2[i][j]) + (Math.sqrt(3) / 12) * h * h * (A2A1[i][j] - A1A2[i][j])
+    ));
+    const propagator = (math.expm(math.matrix(omega)) as math.Matrix).toArray() as Matrix;
+    return multiplyMatrices(propagator, Phi);
+};
+
+/**
+ * State-transition matrix Φ(t) of x' = A(t)x with Φ(0) = I, stepped on a fixed grid of width h
+ * in either direction. Grid checkpoints are cached, so moving t only integrates the last partial step.
+ * Φ(t) is null once A(t) fails to evaluate or the solution blows up.
+ */
+export function createTransitionEvaluator(A: TimeVaryingMatrix, options: TransitionOptions): MatrixEvaluator | null {
+    let initial: Matrix;
+    try {
+        initial = A(0);
+    } catch {
+        return null;
+    }
+    const n = initial.length;
+    const h = Math.max(Math.abs(options.step), 1e-4);
+    const method: EvaluationMethod = options.integrator === 'magnus' ? 'magnus' : 'rk4Transition';
+    const step = options.integrator === 'magnus' ? magnusStep : rk4TransitionStep;
+
+    const safeStep = (t: number, Phi: Matrix, dt: number): Matrix | null => {
+        try {
+            const next = step(A, t, Phi, dt);
+            return next.every(row => row.every(value => Number.isFinite(value) && Math.abs(value) < ODE_DIVERGENCE_LIMIT))
+                ? next
+                : null;
+        } catch {
+            return null;
+        }
+    };
+
+    const forward: (Matrix | null)[] = [identityMatrix(n)];
+    const backward: (Matrix | null)[] = [identityMatrix(n)];
+    const checkpoint = (k: number): Matrix | null => {
+        const table = k >= 0 ? forward : backward;
+        const direction = k >= 0 ? 1 : -1;
+        const index = Math.abs(k);
+        if (index > TRANSITION_CHECKPOINT_LIMIT) return null;
+        while (table.length <= index) {
+            const previous = table[table.length - 1];
+            table.push(previous ? safeStep(direction * (table.length - 1) * h, previous, direction * h) : null);
+        }
+        return table[index];
+    };
+
+    const cache = new Map<number, Matrix | null>();
+    const getMatrixAt = (t: number): Matrix | null => {
+        const tKey = timeKey(t);
+        if (!Number.isFinite(tKey)) return null;
+        if (cache.has(tKey)) return cache.get(tKey)!;
+        const k = Math.trunc(t / h);
+        const base = checkpoint(k);
+        const remainder = t - k * h;
+        const result = base && Math.abs(remainder) > 1e-12 ? safeStep(k * h, base, remainder) : base;
+        cache.set(tKey, result);
+        return result;
+    };
+
+    return {
+        eigenValues: eigenvaluesOf(initial),
+        eigenvectors: [],
+        method,
+        hasNegativeEigenvalues: false,
+        hasRealLogarithm: true,
+        getMethod: () => method,
+        getEigenvaluesAt: (t) => {
+            const mat = getMatrixAt(t);
+            return mat ? eigenvaluesOf(mat) : [];
+        },
+        getMatrixAt,
+        getImaginaryResidual: (t) => (getMatrixAt(t) ? 0 : null),
+        applyToVector: (t, v) => {
+            const mat = getMatrixAt(t);
+            return mat ? multiplyMatrixVector(mat, v) : null;
+        },
+    };
+}
+
+export function calculateAt(A: Matrix, t: number, options: TransformOptions = {}): Matrix | null {
     const evaluator = createMatrixEvaluator(A);
     return evaluator ? evaluator.getMatrixAt(t, options) : null;
 }
 
 export function calculateAtvRaw(
-    A: Matrix3,
-    v: Vector3,
+    A: Matrix,
+    v: Vector,
     t: number,
     options: TransformOptions = {}
-): Vector3 | null {
+): Vector | null {
     const evaluator = createMatrixEvaluator(A);
     return evaluator ? evaluator.applyToVector(t, v, options) : null;
 }
 
 export function calculateAtv(
-    A: Matrix3,
-    v: Vector3,
+    A: Matrix,
+    v: Vector,
     t: number,
     activationFn: ActivationFunction,
     options: TransformOptions = {}
-): Vector3 | null {
+): Vector | null {
     const evaluator = createMatrixEvaluator(A);
     if (!evaluator) return null;
     const raw = evaluator.applyToVector(t, v, options);
     if (!raw) return null;
-    return raw.map(activationFn) as Vector3;
+    return raw.map(activationFn);
 }
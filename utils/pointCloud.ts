@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import type { PointCloud } from '../types';
+
+/** Parsed table: numeric coordinate columns plus an optional label column. */
+export interface PointCloudTable {
+    points: number[][];
+    labels: string[] | null;
+    columns: string[];
+}
+
+export const MAX_CLOUD_POINTS = 100000;
+
+const LABEL_COLUMNS = ['label', 'labels', 'class', 'category', 'cluster', 'target'];
+
+// Categorical palette for label coloring; repeats after ten classes.
+const LABEL_PALETTE = ['#60a5fa', '#f87171', '#4ade80', '#facc15', '#a78bfa', '#fb923c', '#22d3ee', '#f472b6', '#a3e635', '#e2e8f0'];
+
+// Viridis sampled at five stops, interpolated linearly in between.
+const COLORMAP_STOPS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'].map(hex => new THREE.Color(hex));
+
+const isNumeric = (cell: string) => cell.trim() !== '' && Number.isFinite(Number(cell));
+
+const buildTable = (header: string[] | null, rows: string[][]): PointCloudTable => {
+    const width = Math.max(header?.length ?? 0, ...rows.slice(0, 100).map(row => row.length));
+    const names = Array.from({ length: width }, (_, i) => header?.[i]?.trim() || `x${i + 1}`);
+    const named = names.findIndex(name => LABEL_COLUMNS.includes(name.toLowerCase()));
+    const numericColumn = (i: number) => rows.every(row => isNumeric(row[i] ?? ''));
+    const labelColumn = named >= 0 ? named : names.findIndex((_, i) => !numericColumn(i));
+    const coordinateColumns = names.map((_, i) => i).filter(i => i !== labelColumn && numericColumn(i));
+    if (coordinateColumns.length === 0) {
+        throw new Error('No numeric coordinate columns found.');
+    }
+    if (rows.length === 0) {
+        throw new Error('The file contains no points.');
+    }
+    if (rows.length > MAX_CLOUD_POINTS) {
+        throw new Error(`The file has ${rows.length} points; the limit is ${MAX_CLOUD_POINTS}.`);
+    }
+    return {
+        points: rows.map(row => coordinateColumns.map(i => Number(row[i]))),
+        labels: labelColumn >= 0 ? rows.map(row => (row[labelColumn] ?? '').trim()) : null,
+        columns: coordinateColumns.map(i => names[i])
+    };
+};
+
+const parseDelimited = (text: string): PointCloudTable => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.startsWith('#'));
+    if (lines.length === 0) {
+        throw new Error('The file is empty.');
+    }
+    const delimiter = [',', '\t', ';'].find(candidate => lines[0].includes(candidate)) ?? /\s+/;
+    const rows = lines.map(line => line.trim().split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1')));
+    // A first row with no numbers at all is taken as the header.
+    const hasHeader = rows[0].every(cell => !isNumeric(cell));
+    return hasHeader ? buildTable(rows[0], rows.slice(1)) : buildTable(null, rows);
+};
+
+const parseJson = (text: string): PointCloudTable => {
+    const data: unknown = JSON.parse(text);
+    const source = Array.isArray(data) ? data : (data as { points?: unknown })?.points;
+    if (!Array.isArray(source) || source.length === 0) {
+        throw new Error('Expected an array of points or an object with a "points" array.');
+    }
+    const cell = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+    let table: PointCloudTable;
+    if (Array.isArray(source[0])) {
+        table = buildTable(null, source.map(row => (Array.isArray(row) ? row.map(cell) : [])));
+    } else {
+        const header = Object.keys(source[0] ?? {});
+        table = buildTable(header, source.map(row => header.map(key => cell((row as Record<string, unknown>)?.[key]))));
+    }
+    const labels = Array.isArray(data) ? null : (data as { labels?: unknown }).labels;
+    if (Array.isArray(labels) && labels.length === table.points.length) {
+        return { ...table, labels: labels.map(cell) };
+    }
+    return table;
+};
+
+/** Reads a CSV/TSV/whitespace table or JSON file of points. Throws with a readable message. */
+export const parsePointCloud = (name: string, text: string): PointCloudTable => {
+    try {
+        return name.toLowerCase().endsWith('.json') ? parseJson(text) : parseDelimited(text);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'unknown error';
+        throw new Error(`Could not read ${name}: ${reason}`);
+    }
+};
+
+const colormap = (s: number, target: THREE.Color) => {
+    const scaled = THREE.MathUtils.clamp(s, 0, 1) * (COLORMAP_STOPS.length - 1);
+    const index = Math.min(Math.floor(scaled), COLORMAP_STOPS.length - 2);
+    return target.lerpColors(COLORMAP_STOPS[index], COLORMAP_STOPS[index + 1], scaled - index);
+};
+
+/** Per-point RGB triples for the cloud's coloring mode. */
+export const pointCloudColors = (cloud: PointCloud): Float32Array => {
+    const colors = new Float32Array(cloud.points.length * 3);
+    const color = new THREE.Color(cloud.color);
+    if (cloud.coloring === 'label' && cloud.labels) {
+        const classes = new Map<string, THREE.Color>();
+        cloud.labels.forEach((label, i) => {
+            if (!classes.has(label)) {
+                classes.set(label, new THREE.Color(LABEL_PALETTE[classes.size % LABEL_PALETTE.length]));
+            }
+            classes.get(label)!.toArray(colors, i * 3);
+        });
+        return colors;
+    }
+    if (cloud.coloring === 'colormap') {
+        const values = cloud.points.map(point => point[cloud.colormapColumn] ?? 0);
+        const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+        const span = values.reduce((a, b) => Math.max(a, b), -Infinity) - min || 1;
+        values.forEach((value, i) => colormap((value - min) / span, color).toArray(colors, i * 3));
+        return colors;
+    }
+    cloud.points.forEach((_, i) => color.toArray(colors, i * 3));
+    return colors;
+};
@@ -1,4 +1,4 @@
-import type { Matrix3, Vector3, VectorObject, Wall, FadingPathStyle } from '../types';
+import type { Matrix, Vector, VectorObject, Wall, FadingPathStyle, EvaluationMode, BranchPolicy, PathMode, GeodesicBlend, ChainSegment, ProjectionConfig, DynamicsMode, NetworkLayer, ActivationParameter, OdeField, OdeSolver, ParametricMatrix, TransitionIntegrator, FieldOverlayConfig, ShapeObject, CoordinateFrameConfig } from '../types';
 
 export interface AnimationConfigSnapshot {
     duration: number;
@@ -10,13 +10,18 @@ export interface AnimationConfigSnapshot {
 export interface ActivationSnapshot {
     name: string;
     customFnStr: string;
+    /** 'customVector' expressions: one per coordinate, or a single one returning the whole vector. */
+    vectorFnStrs: string[];
+    params: ActivationParameter[];
 }
 
 export interface ProfileData {
     version: number;
-    matrixA: Matrix3;
+    dimension: number;
+    matrixA: Matrix;
     vectors: VectorObject[];
     walls: Wall[];
+    shapes: ShapeObject[];
     t: number;
     tPrecision: number;
     dotMode: boolean;
@@ -25,6 +30,11 @@ export interface ProfileData {
     fadingPathStyle: FadingPathStyle;
     showStartMarkers: boolean;
     showEndMarkers: boolean;
+    showEigenvectors: boolean;
+    showDeterminantVolume: boolean;
+    showSingularEllipsoid: boolean;
+    fieldOverlay: FieldOverlayConfig;
+    coordinateFrame: CoordinateFrameConfig;
     dynamicFadingPath: boolean;
     animationConfig: AnimationConfigSnapshot;
     repeatAnimation: boolean;
@@ -34,6 +44,33 @@ export interface ProfileData {
     matrixExponent: number;
     normalizeMatrix: boolean;
     linearEigenInterpolation: boolean;
+    evaluationMode: EvaluationMode;
+    branchPolicy: BranchPolicy;
+    branchIndex: number;
+    pathMode: PathMode;
+    matrixB: Matrix;
+    selectedPresetNameB: string;
+    geodesicBlend: GeodesicBlend;
+    chainSegments: ChainSegment[];
+    projection: ProjectionConfig;
+    affine: boolean;
+    translation: Vector;
+    dynamicsMode: DynamicsMode;
+    iterationSteps: number;
+    iterationBias: Vector;
+    cobweb: boolean;
+    networkLayers: NetworkLayer[];
+    odeField: OdeField;
+    odeSolver: OdeSolver;
+    odeStep: number;
+    odeTolerance: number;
+    fieldExpressions: string[];
+    fieldParams: ActivationParameter[];
+    fieldPresetName: string;
+    parametricMatrix: ParametricMatrix;
+    timeVaryingExpressions: string[][];
+    transitionIntegrator: TransitionIntegrator;
+    transitionStep: number;
 }
 
 export interface ProfileSummary {
@@ -139,7 +176,12 @@ export const loadLastSession = (): ProfileData | null => {
 
 export const saveLastSession = (data: ProfileData) => {
     if (!isBrowser) return;
-    window.localStorage.setItem(LAST_SESSION_KEY, JSON.stringify({ ...data, version: PROFILE_VERSION }));
+    try {
+        window.localStorage.setItem(LAST_SESSION_KEY, JSON.stringify({ ...data, version: PROFILE_VERSION }));
+    } catch (error) {
+        // Runs on every state change, so a full store must not take the app down with it.
+        console.warn('Failed to save last session', error);
+    }
 };
 
 export const loadLastUsedProfile = (): string | null => {
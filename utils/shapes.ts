@@ -0,0 +1,243 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { Vector, Vector3, ShapeMesh, ShapeObject } from '../types';
+import { resizeVector } from './mathUtils';
+
+/** Rest vertices in N-space, with the triangles and line segments drawn over them. */
+export interface ShapeGeometry {
+    vertices: Vector[];
+    /** Vertex indices, three per triangle. */
+    triangles: number[];
+    /** Vertex indices, two per line segment. */
+    edges: number[];
+}
+
+/** Larger imports are rejected so that re-transforming every vertex each frame stays interactive. */
+export const MAX_MESH_VERTICES = 20000;
+
+// Segments per unit length, so a nonlinear activation bends edges and faces instead of moving only corners.
+const SUBDIVISIONS = 8;
+const LATTICE_EXTENT = 2;
+// The warped coordinate grid has many more lines than a shape, so its cells are split more coarsely.
+const GRID_CELL_SEGMENTS = 4;
+
+/**
+ * Adds a grid patch point(a, b) for a, b ∈ [0, 1], triangulated, with grid lines every
+ * `stride` segments (including the border) added to the edges.
+ */
+const addPatch = (
+    geometry: ShapeGeometry,
+    point: (a: number, b: number) => Vector,
+    [segmentsA, segmentsB]: [number, number],
+    [strideA, strideB]: [number, number]
+) => {
+    const base = geometry.vertices.length;
+    const index = (i: number, j: number) => base + i * (segmentsB + 1) + j;
+    for (let i = 0; i <= segmentsA; i++) {
+        for (let j = 0; j <= segmentsB; j++) {
+            geometry.vertices.push(point(i / segmentsA, j / segmentsB));
+        }
+    }
+    for (let i = 0; i <= segmentsA; i++) {
+        for (let j = 0; j <= segmentsB; j++) {
+            if (i < segmentsA && j < segmentsB) {
+                geometry.triangles.push(index(i, j), index(i + 1, j), index(i + 1, j + 1));
+                geometry.triangles.push(index(i, j), index(i + 1, j + 1), index(i, j + 1));
+            }
+            if (i % strideA === 0 && j < segmentsB) geometry.edges.push(index(i, j), index(i, j + 1));
+            if (j % strideB === 0 && i < segmentsA) geometry.edges.push(index(i, j), index(i + 1, j));
+        }
+    }
+};
+
+// Straight polyline from `from` to `to`, subdivided like the patches.
+const addLine = (geometry: ShapeGeometry, from: Vector, to: Vector, segments: number) => {
+    const base = geometry.vertices.length;
+    for (let i = 0; i <= segments; i++) {
+        const s = i / segments;
+        geometry.vertices.push(from.map((value, k) => value + s * (to[k] - value)));
+        if (i > 0) geometry.edges.push(base + i - 1, base + i);
+    }
+};
+
+const unitCube = (planar: boolean): ShapeGeometry => {
+    const geometry: ShapeGeometry = { vertices: [], triangles: [], edges: [] };
+    const grid: [number, number] = [SUBDIVISIONS, SUBDIVISIONS];
+    if (planar) {
+        addPatch(geometry, (a, b) => [a, b], grid, grid);
+        return geometry;
+    }
+    // Each face spans two of the axes at the near or far side of the third.
+    for (let axis = 0; axis < 3; axis++) {
+        const u = (axis + 1) % 3;
+        const v = (axis + 2) % 3;
+        for (const side of [0, 1]) {
+            addPatch(geometry, (a, b) => {
+                const point = [0, 0, 0];
+                point[axis] = side;
+                point[u] = a;
+                point[v] = b;
+                return point;
+            }, grid, grid);
+        }
+    }
+    return geometry;
+};
+
+const unitSphere = (planar: boolean): ShapeGeometry => {
+    const geometry: ShapeGeometry = { vertices: [], triangles: [], edges: [] };
+    if (planar) {
+        // Disk in polar coordinates: spokes and the boundary circle.
+        addPatch(geometry, (a, b) => [b * Math.cos(2 * Math.PI * a), b * Math.sin(2 * Math.PI * a)], [32, SUBDIVISIONS], [4, SUBDIVISIONS]);
+        return geometry;
+    }
+    addPatch(geometry, (a, b) => {
+        const longitude = 2 * Math.PI * a;
+        const latitude = Math.PI * (b - 0.5);
+        return [Math.cos(latitude) * Math.cos(longitude), Math.cos(latitude) * Math.sin(longitude), Math.sin(latitude)];
+    }, [32, 16], [4, 4]);
+    return geometry;
+};
+
+// Lines parallel to each axis through the integer points of [-2, 2]^d.
+const coordinateLattice = (planar: boolean): ShapeGeometry => {
+    const geometry: ShapeGeometry = { vertices: [], triangles: [], edges: [] };
+    const d = planar ? 2 : 3;
+    const ticks = Array.from({ length: 2 * LATTICE_EXTENT + 1 }, (_, i) => i - LATTICE_EXTENT);
+    const segments = 2 * LATTICE_EXTENT * SUBDIVISIONS;
+    for (let axis = 0; axis < d; axis++) {
+        const others = Array.from({ length: d }, (_, k) => k).filter(k => k !== axis);
+        const offsets: number[][] = others.length === 1
+            ? ticks.map(a => [a])
+            : ticks.flatMap(a => ticks.map(b => [a, b]));
+        for (const offset of offsets) {
+            const from = new Array(d).fill(0);
+            others.forEach((k, i) => { from[k] = offset[i]; });
+            const to = [...from];
+            from[axis] = -LATTICE_EXTENT;
+            to[axis] = LATTICE_EXTENT;
+            addLine(geometry, from, to, segments);
+        }
+    }
+    return geometry;
+};
+
+/**
+ * Grid lines of the coordinate planes through the origin among the first three axes (the whole
+ * plane in 2D), 1/density apart on [-extent, extent] and subdivided so a nonlinear activation curves them.
+ */
+export const coordinateGrid = (n: number, extent: number, density: number): ShapeGeometry => {
+    const geometry: ShapeGeometry = { vertices: [], triangles: [], edges: [] };
+    const d = Math.min(n, 3);
+    const half = Math.max(1, Math.floor(extent * density));
+    const reach = half / density;
+    const ticks = Array.from({ length: 2 * half + 1 }, (_, i) => (i - half) / density);
+    for (let axis = 0; axis < d; axis++) {
+        const others = Array.from({ length: d }, (_, k) => k).filter(k => k !== axis);
+        others.forEach((other, index) => {
+            for (const tick of ticks) {
+                // The axis itself lies in every plane containing it; draw it once.
+                if (tick === 0 && index > 0) continue;
+                const from = new Array(n).fill(0);
+                from[other] = tick;
+                const to = [...from];
+                from[axis] = -reach;
+                to[axis] = reach;
+                addLine(geometry, from, to, 2 * half * GRID_CELL_SEGMENTS);
+            }
+        });
+    }
+    return geometry;
+};
+
+/**
+ * Rest geometry of a shape embedded in N-space: extra coordinates are zero, and in 2D
+ * the cube, sphere and lattice become a square, disk and grid while meshes lose z.
+ */
+export const buildShapeGeometry = (shape: ShapeObject, n: number): ShapeGeometry => {
+    const planar = n === 2;
+    let geometry: ShapeGeometry;
+    switch (shape.kind) {
+        case 'cube':
+            geometry = unitCube(planar);
+            break;
+        case 'sphere':
+            geometry = unitSphere(planar);
+            break;
+        case 'lattice':
+            geometry = coordinateLattice(planar);
+            break;
+        case 'mesh':
+            geometry = {
+                vertices: shape.mesh?.vertices ?? [],
+                triangles: shape.mesh?.triangles ?? [],
+                edges: []
+            };
+            break;
+    }
+    return { ...geometry, vertices: geometry.vertices.map(vertex => resizeVector(vertex, n)) };
+};
+
+const loadMeshGeometries = (name: string, data: ArrayBuffer): THREE.BufferGeometry[] => {
+    const extension = name.split('.').pop()?.toLowerCase();
+    if (extension === 'stl') {
+        return [new STLLoader().parse(data)];
+    }
+    if (extension === 'obj') {
+        const geometries: THREE.BufferGeometry[] = [];
+        new OBJLoader().parse(new TextDecoder().decode(data)).traverse(object => {
+            if (object instanceof THREE.Mesh) geometries.push(object.geometry);
+        });
+        return geometries;
+    }
+    throw new Error('Only .obj and .stl files can be imported.');
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 1e4) / 1e4;
+
+/** Parses an OBJ or STL file into a welded triangle mesh, centered and scaled to fit [-1, 1]³. */
+export const parseMeshFile = (name: string, data: ArrayBuffer): ShapeMesh => {
+    const vertices: Vector3[] = [];
+    const triangles: number[] = [];
+    for (const source of loadMeshGeometries(name, data)) {
+        // Normals and UVs would keep seams from welding, so only positions are merged.
+        const positionsOnly = new THREE.BufferGeometry();
+        positionsOnly.setAttribute('position', source.getAttribute('position'));
+        if (source.index) positionsOnly.setIndex(source.index);
+        const welded = mergeVertices(positionsOnly);
+        const position = welded.getAttribute('position');
+        const base = vertices.length;
+        for (let i = 0; i < position.count; i++) {
+            vertices.push([position.getX(i), position.getY(i), position.getZ(i)]);
+        }
+        const index = welded.index;
+        const count = index ? index.count : position.count;
+        for (let i = 0; i + 2 < count; i += 3) {
+            for (let k = 0; k < 3; k++) {
+                triangles.push(base + (index ? index.getX(i + k) : i + k));
+            }
+        }
+        welded.dispose();
+    }
+    if (triangles.length === 0) {
+        throw new Error(`No triangles found in ${name}.`);
+    }
+    if (vertices.length > MAX_MESH_VERTICES) {
+        throw new Error(`${name} has ${vertices.length} vertices; the limit is ${MAX_MESH_VERTICES}.`);
+    }
+    const box = new THREE.Box3().setFromArray(vertices.flat());
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const scale = 2 / (Math.max(size.x, size.y, size.z) || 1);
+    return {
+        name,
+        vertices: vertices.map(([x, y, z]) => [
+            roundCoordinate((x - center.x) * scale),
+            roundCoordinate((y - center.y) * scale),
+            roundCoordinate((z - center.z) * scale)
+        ]),
+        triangles
+    };
+};